@@ -0,0 +1,161 @@
+// Compares building problem PDFs the old way (a single-page PDF per labeled page, loaded again at
+// finalize) with the single pass of buildProblemPdf, on a synthetic class of scanned exams.
+//
+//   npm run benchmark              (100 students)
+//   npm run benchmark -- 20        (any other class size)
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { PNG } from 'pngjs';
+import { buildProblemPdf } from '../src/problemPdf';
+import { stampWatermark, DEFAULT_WATERMARK_SETTINGS } from '../src/watermark';
+import { ProblemPage, SessionData, StudentData } from '../src/types';
+
+const STUDENTS = Number(process.argv[2]) || 100;
+const PAGES_PER_STUDENT = 10;
+const PROBLEMS = ['1', '2', '3', '4', '5'];
+
+// Every page of a student's scan shares one image, like the letterhead of an exam sheet
+function noiseImage(seed: number) {
+  const png = new PNG({ width: 160, height: 160 });
+  let state = seed;
+  for (let i = 0; i < png.data.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    png.data[i] = i % 4 === 3 ? 255 : state & 0xff;
+  }
+  return PNG.sync.write(png);
+}
+
+async function createFixture(dir: string) {
+  const students: StudentData[] = [];
+  const problemPages: { [problemId: string]: ProblemPage[] } = {};
+
+  for (let id = 1; id <= STUDENTS; id++) {
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const image = await pdf.embedPng(noiseImage(id));
+    for (let pageNumber = 1; pageNumber <= PAGES_PER_STUDENT; pageNumber++) {
+      const page = pdf.addPage([595.28, 841.89]);
+      page.drawImage(image, { x: 40, y: 640, width: 160, height: 160 });
+      page.drawText(`Student ${id}, page ${pageNumber}`, { x: 40, y: 600, size: 18, font });
+    }
+    const originalPdfPath = path.join(dir, `student-${id}.pdf`);
+    await fs.writeFile(originalPdfPath, await pdf.save());
+
+    const pageLabels: { [pageNumber: number]: string[] } = {};
+    for (let pageNumber = 1; pageNumber <= PAGES_PER_STUDENT; pageNumber++) {
+      // Two pages per problem, and every fifth page also holds the start of the next problem
+      const problem = Math.floor((pageNumber - 1) / 2);
+      pageLabels[pageNumber] = pageNumber % 5 === 0 && problem + 1 < PROBLEMS.length
+        ? [PROBLEMS[problem], PROBLEMS[problem + 1]]
+        : [PROBLEMS[problem]];
+      for (const problemId of pageLabels[pageNumber]) {
+        (problemPages[problemId] = problemPages[problemId] || []).push({ studentId: id, studentName: `Student ${id}`, pageNumber });
+      }
+    }
+
+    students.push({ id, name: `Student ${id}`, originalPdfPath, pageLabels, processingStatus: 'completed' });
+  }
+  return { students, problemPages };
+}
+
+// The previous pipeline: one saved single-page PDF per (page, problem) while labeling,
+// each loaded again and copied into the problem PDF at finalize
+async function previousPipeline(session: SessionData) {
+  const singlePages: { [problemId: string]: { page: ProblemPage; pdfData: Uint8Array }[] } = {};
+  for (const student of session.students) {
+    const originalPdf = await PDFDocument.load(await fs.readFile(student.originalPdfPath));
+    for (const [pageNumber, problemIds] of Object.entries(student.pageLabels)) {
+      for (const problemId of problemIds) {
+        const pagePdf = await PDFDocument.create();
+        const [copiedPage] = await pagePdf.copyPages(originalPdf, [Number(pageNumber) - 1]);
+        pagePdf.addPage(copiedPage);
+        (singlePages[problemId] = singlePages[problemId] || []).push({
+          page: { studentId: student.id, studentName: student.name, pageNumber: Number(pageNumber) },
+          pdfData: await pagePdf.save()
+        });
+      }
+    }
+  }
+
+  let totalBytes = 0;
+  for (const problemId of PROBLEMS) {
+    const problemPdf = await PDFDocument.create();
+    for (const { page, pdfData } of singlePages[problemId]) {
+      const pagePdf = await PDFDocument.load(pdfData);
+      const [copiedPage] = await problemPdf.copyPages(pagePdf, [0]);
+      problemPdf.addPage(copiedPage);
+      await stampWatermark(problemPdf, copiedPage, {
+        problem: problemId,
+        name: page.studentName,
+        studentId: page.studentId,
+        studentNumber: String(page.studentId),
+        page: page.pageNumber
+      }, session.watermark);
+    }
+    totalBytes += (await problemPdf.save()).length;
+  }
+  return totalBytes;
+}
+
+async function singlePass(session: SessionData) {
+  let totalBytes = 0;
+  for (const problemId of PROBLEMS) {
+    const { pdfBytes } = await buildProblemPdf(session, problemId, session.problemPages[problemId], session.watermark);
+    totalBytes += pdfBytes.length;
+  }
+  return totalBytes;
+}
+
+async function measure(label: string, run: () => Promise<number>) {
+  const start = process.hrtime.bigint();
+  const totalBytes = await run();
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  console.log(`${label.padEnd(16)} ${seconds.toFixed(2).padStart(7)} s  ${(totalBytes / 1024 / 1024).toFixed(1).padStart(7)} MB of problem PDFs`);
+  return seconds;
+}
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'exam-grader-benchmark-'));
+  try {
+    console.log(`Creating ${STUDENTS} students with ${PAGES_PER_STUDENT} scanned pages each...`);
+    const { students, problemPages } = await createFixture(dir);
+    const session: SessionData = {
+      id: 'benchmark',
+      name: 'Benchmark',
+      createdAt: new Date().toISOString(),
+      uploadDir: dir,
+      watermark: DEFAULT_WATERMARK_SETTINGS,
+      anonymize: false,
+      placeholderPages: false,
+      studentOrder: 'upload',
+      orderSeed: 'benchmark',
+      examProblems: [],
+      roster: [],
+      students,
+      problemPages,
+      finalPdfPaths: {},
+      finalLayout: {},
+      finalCoverPages: {},
+      coverPage: false,
+      gradedPdfPaths: {},
+      maxPoints: {}
+    };
+
+    // Warm up the watermark fonts, so neither run pays for loading them
+    await buildProblemPdf(session, PROBLEMS[0], problemPages[PROBLEMS[0]].slice(0, 1), session.watermark);
+
+    const previous = await measure('Per-page PDFs', () => previousPipeline(session));
+    const current = await measure('Single pass', () => singlePass(session));
+    console.log(`Speedup: ${(previous / current).toFixed(1)}x`);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
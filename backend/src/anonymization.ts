@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { StudentData } from './types';
+
+// Leaves out look-alike characters (0/O, 1/I) so codes are easy to read off a page
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+// In blind grading mode the label never contains the name or upload index, whatever the template says
+export const ANONYMOUS_WATERMARK_TEMPLATE = 'Problem {problem} - {name}';
+
+function generateCode() {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Give every student without one a random code that is unique within the session.
+// Returns true when any code was assigned, so the caller knows to persist the session.
+export function assignAnonymousCodes(students: StudentData[]) {
+  const usedCodes = new Set(students.map(s => s.anonymousCode).filter(Boolean));
+  let assigned = false;
+
+  for (const student of students) {
+    if (student.anonymousCode) continue;
+
+    let code = generateCode();
+    while (usedCodes.has(code)) {
+      code = generateCode();
+    }
+    usedCodes.add(code);
+    student.anonymousCode = code;
+    assigned = true;
+  }
+  return assigned;
+}
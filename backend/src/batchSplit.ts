@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFPage, PDFStream } from 'pdf-lib';
+
+// A page counts as blank when it carries less than this share of the median page's data.
+// Scanned blank sheets compress to a fraction of a written page; generated blank pages have no content.
+const BLANK_PAGE_RATIO = 0.15;
+
+function streamSize(pdf: PDFDocument, object: unknown): number {
+  const resolved = pdf.context.lookup(object as never);
+  if (resolved instanceof PDFStream) {
+    return resolved.getContentsSize();
+  }
+  if (resolved instanceof PDFArray) {
+    return resolved.asArray().reduce((sum: number, item) => sum + streamSize(pdf, item), 0);
+  }
+  return 0;
+}
+
+// Bytes of drawing instructions plus embedded images - a rough measure of how much is on a page
+function pageDataSize(pdf: PDFDocument, page: PDFPage) {
+  let size = streamSize(pdf, page.node.Contents());
+  const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  if (xObjects) {
+    for (const [, ref] of xObjects.entries()) {
+      size += streamSize(pdf, ref);
+    }
+  }
+  return size;
+}
+
+// Page numbers (1-based) that look blank, e.g. separator sheets between students
+export function detectBlankPages(pdf: PDFDocument) {
+  const sizes = pdf.getPages().map(page => pageDataSize(pdf, page));
+  const median = [...sizes].sort((a, b) => a - b)[Math.floor(sizes.length / 2)] || 0;
+  const threshold = Math.max(median * BLANK_PAGE_RATIO, 16);
+  return sizes
+    .map((size, index) => ({ size, pageNumber: index + 1 }))
+    .filter(page => page.size < threshold)
+    .map(page => page.pageNumber);
+}
+
+// Turn "student starts on these pages" plus pages to drop (separator sheets) into page ranges.
+// Returns one list of page numbers per student or an error message.
+export function parseSplitPlan(input: { starts?: unknown; skip?: unknown }, pageCount: number): number[][] | string {
+  const isPage = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= pageCount;
+
+  if (!Array.isArray(input.starts) || !input.starts.every(isPage)) {
+    return `Student start pages must be page numbers between 1 and ${pageCount}`;
+  }
+  const skip = input.skip === undefined ? [] : input.skip;
+  if (!Array.isArray(skip) || !skip.every(isPage)) {
+    return `Skipped pages must be page numbers between 1 and ${pageCount}`;
+  }
+
+  // The first page always starts a student
+  const starts = new Set<number>([1, ...input.starts]);
+  const skipped = new Set<number>(skip);
+  const segments: number[][] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    if (starts.has(pageNumber) && (segments.length === 0 || segments[segments.length - 1].length > 0)) {
+      segments.push([]);
+    }
+    if (!skipped.has(pageNumber)) {
+      segments[segments.length - 1].push(pageNumber);
+    }
+  }
+
+  const students = segments.filter(segment => segment.length > 0);
+  if (students.length === 0) {
+    return 'Every page is skipped - nothing left to split';
+  }
+  return students;
+}
+
+// Write one PDF per segment next to the batch file and return their paths in order
+export async function splitBatchPdf(batchPdfPath: string, segments: number[][]) {
+  const batchPdf = await PDFDocument.load(await fs.readFile(batchPdfPath));
+  const outputDir = path.dirname(batchPdfPath);
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+
+  const paths: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const studentPdf = await PDFDocument.create();
+    const pages = await studentPdf.copyPages(batchPdf, segments[i].map(pageNumber => pageNumber - 1));
+    pages.forEach(page => studentPdf.addPage(page));
+
+    const studentPdfPath = path.join(outputDir, `split-${uniqueSuffix}-${i + 1}.pdf`);
+    await fs.writeFile(studentPdfPath, await studentPdf.save());
+    paths.push(studentPdfPath);
+  }
+  return paths;
+}
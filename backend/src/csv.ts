@@ -0,0 +1,61 @@
+// Minimal CSV helpers for the files we hand out (and read back) as spreadsheets
+
+type CsvCell = string | number | null | undefined;
+
+function escapeCell(cell: CsvCell) {
+  const text = cell === null || cell === undefined ? '' : String(cell);
+  // Quote cells containing separators, quotes or line breaks, doubling embedded quotes
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]) {
+  // Leading BOM so Excel opens UTF-8 names (å, ł, 漢字) correctly
+  return '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Parse a CSV file as exported by Excel, LibreOffice or an LMS. The separator (comma, semicolon
+// or tab - Excel uses semicolons in many locales) is taken from the first line.
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const separator = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines don't count as rows
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
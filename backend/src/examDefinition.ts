@@ -0,0 +1,61 @@
+import { ProblemDefinition, SessionData, StudentData } from './types';
+import { NOT_A_PROBLEM, isProblemId, normalizeProblemId } from './problemIds';
+import { parsePoints } from './gradebook';
+
+interface ParsedExamDefinition {
+  problems: ProblemDefinition[];
+  maxPoints: { [problemId: string]: number };
+}
+
+// Validate the problem list sent by the exam definition step.
+// Returns the definition or an error message.
+export function parseExamDefinition(input: unknown): ParsedExamDefinition | string {
+  if (!Array.isArray(input) || input.length === 0) {
+    return 'Add at least one problem';
+  }
+
+  const problems: ProblemDefinition[] = [];
+  const maxPoints: { [problemId: string]: number } = {};
+  for (const entry of input) {
+    const id = normalizeProblemId(entry && entry.id);
+    if (!id) {
+      return `Invalid problem ID "${entry && entry.id}" - use IDs like 3, 3a or 2.3`;
+    }
+    if (problems.some(p => p.id === id)) {
+      return `Problem ${id} is listed twice`;
+    }
+
+    const points = parsePoints(entry.maxPoints ?? null, `Max points of problem ${id}`);
+    if (typeof points === 'string') {
+      return points;
+    }
+    if (points !== null) {
+      maxPoints[id] = points;
+    }
+    problems.push({ id, title: typeof entry.title === 'string' ? entry.title.trim() : '' });
+  }
+  return { problems, maxPoints };
+}
+
+export function usedProblemIds(students: StudentData[]) {
+  const used = new Set<string>();
+  for (const student of students) {
+    for (const labels of Object.values(student.pageLabels)) {
+      labels.filter(isProblemId).forEach(id => used.add(id));
+    }
+  }
+  return used;
+}
+
+// Labels that aren't part of the exam definition - sessions without a definition accept anything
+export function undefinedLabels(session: SessionData, pageLabels: { [pageNumber: number]: string[] }) {
+  if (session.examProblems.length === 0) {
+    return [];
+  }
+  const defined = new Set(session.examProblems.map(p => p.id));
+  const unknown = new Set<string>();
+  for (const labels of Object.values(pageLabels)) {
+    labels.filter(label => label !== NOT_A_PROBLEM && !defined.has(label)).forEach(label => unknown.add(label));
+  }
+  return Array.from(unknown);
+}
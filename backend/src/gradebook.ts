@@ -0,0 +1,74 @@
+import ExcelJS from 'exceljs';
+import { SessionData } from './types';
+import { isProblemId, sortProblemIds } from './problemIds';
+
+// Every problem of the exam definition or that at least one page was labeled with, plus problems that only have max points
+export function sessionProblems(session: SessionData) {
+  const problems = new Set<string>([...session.examProblems.map(p => p.id), ...Object.keys(session.maxPoints)]);
+  for (const student of session.students) {
+    for (const problemIds of Object.values(student.pageLabels)) {
+      problemIds.filter(isProblemId).forEach(id => problems.add(id));
+    }
+  }
+  return sortProblemIds(problems);
+}
+
+// Returns the points as a number, null to clear the value, or an error message
+export function parsePoints(value: unknown, label: string): number | null | string {
+  const input = typeof value === 'string' ? value.trim() : value;
+  if (input === null || input === '') {
+    return null;
+  }
+  // Text has to be a plain decimal (a comma works as the decimal point) - Number() would also take 0x10 or 1e1
+  const points = typeof input === 'string'
+    ? (/^\d+([.,]\d+)?$/.test(input) ? Number(input.replace(',', '.')) : NaN)
+    : input;
+  if (typeof points !== 'number' || !Number.isFinite(points) || points < 0) {
+    return `${label} must be a number of at least 0`;
+  }
+  return points;
+}
+
+const sumPoints = (values: (number | undefined)[]) => {
+  const entered = values.filter((v): v is number => v !== undefined);
+  return entered.length > 0 ? entered.reduce((sum, v) => sum + v, 0) : '';
+};
+
+// One row per student with a column per problem - unscored problems stay empty
+export function gradebookRows(session: SessionData) {
+  const problems = sessionProblems(session);
+  // Only show a max total once every problem has max points, otherwise it would be misleading
+  const maxTotal = problems.every(p => session.maxPoints[p] !== undefined) ? sumPoints(problems.map(p => session.maxPoints[p])) : '';
+  const header = [
+    'Student Nr',
+    'Student Name',
+    ...problems.map(p => {
+      const title = session.examProblems.find(problem => problem.id === p)?.title;
+      const label = title ? `Problem ${p}: ${title}` : `Problem ${p}`;
+      return session.maxPoints[p] !== undefined ? `${label} (max ${session.maxPoints[p]})` : label;
+    }),
+    maxTotal !== '' ? `Total (max ${maxTotal})` : 'Total'
+  ];
+
+  const rows = session.students.map(student => {
+    const scores = problems.map(p => student.scores?.[p]);
+    return [student.studentNumber || '', student.name, ...scores.map(score => score ?? ''), sumPoints(scores)];
+  });
+
+  return [header, ...rows];
+}
+
+export async function toXlsx(rows: (string | number)[][], sheetName: string) {
+  const workbook = new ExcelJS.Workbook();
+  // Excel limits sheet names to 31 characters and a few forbidden symbols
+  const sheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Gradebook');
+  sheet.addRows(rows);
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.columns.forEach(column => {
+    column.width = 14;
+  });
+  sheet.getColumn(2).width = 30;
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
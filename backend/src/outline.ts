@@ -0,0 +1,122 @@
+import { PDFDocument, PDFHexString, PDFName, PDFRef, RGB, rgb } from 'pdf-lib';
+import { ProblemPage } from './types';
+import { drawWatermark, prepareWatermark } from './watermark';
+import { PAGE_HEIGHT, PAGE_WIDTH } from './pageSize';
+
+// One student in a problem PDF - pageIndex is their first page, counted without cover pages
+export interface StudentEntry {
+  title: string;
+  pageIndex: number;
+  pageCount: number;
+}
+
+const MARGIN = 60;
+const LINE_HEIGHT = 18;
+// Table of contents lines on the first cover page (below the heading) and on every following one
+const FIRST_PAGE_LINES = 30;
+const PAGE_LINES = 40;
+
+const TEXT_COLOR = rgb(0.12, 0.16, 0.23);
+const MUTED_COLOR = rgb(0.39, 0.45, 0.55);
+
+// Group a problem's pages into one entry per student - each student's pages are consecutive
+export function studentEntries(pages: ProblemPage[], titleFor: (studentId: number) => string) {
+  const entries: (StudentEntry & { studentId: number })[] = [];
+  pages.forEach((page, index) => {
+    const last = entries[entries.length - 1];
+    if (last && last.studentId === page.studentId) {
+      last.pageCount++;
+    } else {
+      entries.push({ studentId: page.studentId, title: titleFor(page.studentId), pageIndex: index, pageCount: 1 });
+    }
+  });
+  return entries;
+}
+
+export function coverPageCount(entryCount: number) {
+  return entryCount <= FIRST_PAGE_LINES ? 1 : 1 + Math.ceil((entryCount - FIRST_PAGE_LINES) / PAGE_LINES);
+}
+
+interface TextOptions {
+  y: number;
+  size: number;
+  alignRight?: number; // Right edge for right-aligned text, otherwise it starts at the margin
+  color?: RGB;
+}
+
+// Same font fallback as watermarks, so names in any script can be printed
+async function drawText(pdf: PDFDocument, pageIndex: number, text: string, options: TextOptions) {
+  const prepared = await prepareWatermark(pdf, text);
+  const x = options.alignRight !== undefined ? options.alignRight - prepared.widthAtSize(options.size) : MARGIN;
+  drawWatermark(pdf.getPage(pageIndex), prepared, {
+    x,
+    y: options.y,
+    size: options.size,
+    rotate: 0,
+    color: options.color || TEXT_COLOR,
+    opacity: 1
+  });
+}
+
+// Add cover pages with the problem title, student and page counts and a table of contents.
+// Must be called on an empty document, before the student pages are added. Returns the number of cover pages.
+export async function addCoverPages(pdf: PDFDocument, heading: string, subtitle: string, entries: StudentEntry[]) {
+  const coverPages = coverPageCount(entries.length);
+  for (let i = 0; i < coverPages; i++) {
+    pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  const totalPages = entries.reduce((sum, entry) => sum + entry.pageCount, 0);
+  let y = PAGE_HEIGHT - MARGIN - 28;
+  await drawText(pdf, 0, heading, { y, size: 28 });
+  if (subtitle) {
+    y -= 30;
+    await drawText(pdf, 0, subtitle, { y, size: 18 });
+  }
+  y -= 26;
+  await drawText(pdf, 0, `${entries.length} students, ${totalPages} pages`, { y, size: 12, color: MUTED_COLOR });
+  y -= 40;
+  await drawText(pdf, 0, 'Contents', { y, size: 16 });
+  y -= 12;
+
+  // Lines are placed from the top of each page; the first page starts below the heading
+  for (let i = 0; i < entries.length; i++) {
+    const pageIndex = i < FIRST_PAGE_LINES ? 0 : 1 + Math.floor((i - FIRST_PAGE_LINES) / PAGE_LINES);
+    const line = i < FIRST_PAGE_LINES ? i : (i - FIRST_PAGE_LINES) % PAGE_LINES;
+    const lineY = (pageIndex === 0 ? y : PAGE_HEIGHT - MARGIN) - (line + 1) * LINE_HEIGHT;
+    await drawText(pdf, pageIndex, entries[i].title, { y: lineY, size: 11 });
+    await drawText(pdf, pageIndex, String(coverPages + entries[i].pageIndex + 1), { alignRight: PAGE_WIDTH - MARGIN, y: lineY, size: 11 });
+  }
+  return coverPages;
+}
+
+// Add a bookmark per student pointing to their first page, using pdf-lib's low-level objects
+// since it has no outline API. pageOffset is the number of cover pages in front of the students.
+export function addOutline(pdf: PDFDocument, entries: StudentEntry[], pageOffset: number) {
+  if (entries.length === 0) return;
+
+  const pages = pdf.getPages();
+  const outlineRef = pdf.context.nextRef();
+  const itemRefs: PDFRef[] = entries.map(() => pdf.context.nextRef());
+
+  entries.forEach((entry, i) => {
+    const item = pdf.context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlineRef,
+      Dest: [pages[pageOffset + entry.pageIndex].ref, 'Fit'],
+      ...(i > 0 ? { Prev: itemRefs[i - 1] } : {}),
+      ...(i < entries.length - 1 ? { Next: itemRefs[i + 1] } : {})
+    });
+    pdf.context.assign(itemRefs[i], item);
+  });
+
+  pdf.context.assign(outlineRef, pdf.context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: entries.length
+  }));
+  pdf.catalog.set(PDFName.of('Outlines'), outlineRef);
+  // Open the bookmarks panel when the PDF is opened
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
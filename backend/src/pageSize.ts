@@ -0,0 +1,4 @@
+import { PageSizes } from 'pdf-lib';
+
+// A4 in PDF points - the size of every page the app creates itself (cover pages, placeholders, photos)
+export const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.A4;
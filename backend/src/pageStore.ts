@@ -0,0 +1,37 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import { SessionData } from './types';
+
+// Problem PDFs are kept on disk in the session's upload directory - the session only holds
+// their paths, so memory use doesn't grow with the class size
+
+function problemsDir(session: Pick<SessionData, 'uploadDir'>) {
+  return path.join(session.uploadDir, 'problems');
+}
+
+export async function writeProblemPdf(session: Pick<SessionData, 'uploadDir'>, problemId: string, bytes: Uint8Array) {
+  await fs.mkdir(problemsDir(session), { recursive: true });
+  const filePath = path.join(problemsDir(session), `Problem_${problemId}.pdf`);
+  // Replace in one step, so a download that is still streaming the old file isn't cut short
+  const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, bytes);
+  await fs.rename(tempPath, filePath);
+  return filePath;
+}
+
+// Delete stored files - a file that is already gone is fine
+export async function removeStoredFiles(filePaths: string[]) {
+  await Promise.all(filePaths.map(filePath => fs.rm(filePath, { force: true }).catch(error => {
+    console.warn(`Could not delete stored file: ${filePath}`, error);
+  })));
+}
+
+// Drop every problem PDF of a session, e.g. leftovers from before a restart
+export async function clearPageStore(session: SessionData) {
+  try {
+    await fs.rm(problemsDir(session), { recursive: true, force: true });
+  } catch (error) {
+    console.warn(`Could not delete temp directory: ${problemsDir(session)}`, error);
+  }
+}
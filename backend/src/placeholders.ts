@@ -0,0 +1,57 @@
+import { PDFDocument, rgb } from 'pdf-lib';
+import { ProblemPage, StudentData } from './types';
+import { drawWatermark, prepareWatermark } from './watermark';
+import { PAGE_HEIGHT, PAGE_WIDTH } from './pageSize';
+
+// Page number used in the layout for a generated page - it has no page in the student's upload
+export const PLACEHOLDER_PAGE_NUMBER = 0;
+
+// Add a page saying that this student has no answer for the problem
+export async function addPlaceholderPage(pdf: PDFDocument, problemId: string, studentLabel: string) {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const lines = [
+    { text: `Problem ${problemId}`, size: 28, color: rgb(0.12, 0.16, 0.23) },
+    { text: studentLabel, size: 22, color: rgb(0.12, 0.16, 0.23) },
+    { text: 'No answer submitted', size: 22, color: rgb(0.86, 0.15, 0.15) }
+  ];
+
+  // Centered lines, with the same font fallback as watermarks so any name can be printed
+  let y = PAGE_HEIGHT / 2 + 60;
+  for (const line of lines) {
+    const text = await prepareWatermark(pdf, line.text);
+    drawWatermark(page, text, {
+      x: (PAGE_WIDTH - text.widthAtSize(line.size)) / 2,
+      y,
+      size: line.size,
+      rotate: 0,
+      color: line.color,
+      opacity: 1
+    });
+    y -= line.size * 2;
+  }
+  return page;
+}
+
+// One placeholder page for every (student, problem) pair without a labeled page, so each
+// problem PDF has exactly one entry per student. The pages are drawn when the problem PDF is built.
+export function createPlaceholderPages(
+  students: StudentData[],
+  problemPages: { [problemId: string]: ProblemPage[] },
+  problemIds: string[]
+) {
+  const placeholders: { [problemId: string]: ProblemPage[] } = {};
+  for (const problemId of problemIds) {
+    const answered = new Set((problemPages[problemId] || []).map(page => page.studentId));
+    for (const student of students.filter(s => !answered.has(s.id))) {
+      if (!placeholders[problemId]) {
+        placeholders[problemId] = [];
+      }
+      placeholders[problemId].push({
+        studentId: student.id,
+        studentName: student.name,
+        pageNumber: PLACEHOLDER_PAGE_NUMBER
+      });
+    }
+  }
+  return placeholders;
+}
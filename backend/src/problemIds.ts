@@ -0,0 +1,71 @@
+// Problem IDs are short strings like "3", "3a" or "2.3" so exams with sub-problems can be labeled
+
+// Label for pages that don't belong to any problem (cover pages, scrap paper)
+export const NOT_A_PROBLEM = '-';
+
+const PROBLEM_ID_PATTERN = /^[0-9a-z]+(\.[0-9a-z]+)*$/;
+const MAX_PROBLEM_ID_LENGTH = 20;
+
+// Lower-cases and trims an ID; returns null if it isn't a valid problem ID
+export function normalizeProblemId(input: unknown) {
+  if (typeof input !== 'string' && typeof input !== 'number') {
+    return null;
+  }
+  const id = String(input).trim().toLowerCase();
+  return id.length <= MAX_PROBLEM_ID_LENGTH && PROBLEM_ID_PATTERN.test(id) ? id : null;
+}
+
+export function isProblemId(label: string) {
+  return label !== NOT_A_PROBLEM;
+}
+
+// Natural ordering: digit runs compare as numbers, so 2 < 2.3 < 2a < 2b < 10
+export function compareProblemIds(a: string, b: string) {
+  const partsA = a.split(/(\d+)/);
+  const partsB = b.split(/(\d+)/);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const x = partsA[i] ?? '';
+    const y = partsB[i] ?? '';
+    if (x === y) continue;
+    // split() with a capture group puts the digit runs at the odd indexes
+    if (i % 2 === 1 && x && y) {
+      return Number(x) - Number(y) || x.length - y.length;
+    }
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+export function sortProblemIds(ids: Iterable<string>) {
+  return Array.from(ids).sort(compareProblemIds);
+}
+
+// Validate page labels from a request or an older session file.
+// Numbers are accepted so sessions saved before string IDs keep working (-1 meant "not a problem").
+export function normalizePageLabels(input: unknown): { [pageNumber: number]: string[] } | string {
+  if (!input || typeof input !== 'object') {
+    return 'Page labels are missing';
+  }
+
+  const pageLabels: { [pageNumber: number]: string[] } = {};
+  for (const [pageKey, labels] of Object.entries(input)) {
+    const pageNumber = Number(pageKey);
+    if (!Number.isInteger(pageNumber) || pageNumber <= 0 || !Array.isArray(labels)) {
+      return `Invalid labels for page ${pageKey}`;
+    }
+
+    const normalized: string[] = [];
+    for (const label of labels) {
+      const problemId = label === NOT_A_PROBLEM || label === -1 ? NOT_A_PROBLEM : normalizeProblemId(label);
+      if (!problemId) {
+        return `Invalid problem ID "${label}" on page ${pageNumber}`;
+      }
+      // A page is in each problem PDF once, however often it was labeled with that problem
+      if (!normalized.includes(problemId)) {
+        normalized.push(problemId);
+      }
+    }
+    pageLabels[pageNumber] = normalized;
+  }
+  return pageLabels;
+}
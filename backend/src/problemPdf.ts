@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { ProblemPage, SessionData, WatermarkSettings } from './types';
+import { stampWatermark } from './watermark';
+import { PLACEHOLDER_PAGE_NUMBER, addPlaceholderPage } from './placeholders';
+import { addCoverPages, addOutline, studentEntries } from './outline';
+import { cropToRegion } from './regions';
+
+// The session fields a problem PDF is built from - plain data, so a copy can be sent to a worker thread
+export type ProblemPdfSession = Pick<SessionData, 'uploadDir' | 'students' | 'anonymize' | 'coverPage' | 'examProblems'>;
+
+// What a student is called in a problem PDF - blind grading only shows codes
+export function studentLabel(session: Pick<SessionData, 'students' | 'anonymize'>, studentId: number) {
+  const student = session.students.find(s => s.id === studentId);
+  if (session.anonymize) return student?.anonymousCode || '';
+  return student?.studentNumber ? `${student.name} (${student.studentNumber})` : student?.name || '';
+}
+
+// Build a problem PDF in a single pass over its pages. Each student's pages are copied straight from
+// their upload with one copyPages call, so the upload is parsed once per problem and the fonts and
+// scanned images its pages share end up in the problem PDF only once. Also returns the number of cover pages.
+export async function buildProblemPdf(session: ProblemPdfSession, problemId: string, pages: ProblemPage[], watermarkSettings: WatermarkSettings) {
+  const problemPdf = await PDFDocument.create();
+  const entries = studentEntries(pages, studentId => studentLabel(session, studentId));
+  const coverPages = session.coverPage
+    ? await addCoverPages(problemPdf, `Problem ${problemId}`, session.examProblems.find(p => p.id === problemId)?.title || '', entries)
+    : 0;
+
+  // Each student's pages are consecutive, one entry per student
+  for (const entry of entries) {
+    const studentPages = pages.slice(entry.pageIndex, entry.pageIndex + entry.pageCount);
+    const student = session.students.find(s => s.id === entry.studentId);
+    const uploadedPages = studentPages.filter(page => page.pageNumber !== PLACEHOLDER_PAGE_NUMBER);
+
+    let copiedPages: PDFPage[] = [];
+    if (uploadedPages.length > 0) {
+      if (!student) {
+        throw new Error(`Student ${entry.studentId} of problem ${problemId} no longer exists`);
+      }
+      const originalPdf = await PDFDocument.load(await fs.readFile(student.originalPdfPath));
+      copiedPages = await problemPdf.copyPages(originalPdf, uploadedPages.map(page => page.pageNumber - 1));
+    }
+
+    for (const page of studentPages) {
+      // Placeholder pages already say who and which problem they are for
+      if (page.pageNumber === PLACEHOLDER_PAGE_NUMBER) {
+        await addPlaceholderPage(problemPdf, problemId, session.anonymize ? student?.anonymousCode || '' : page.studentName);
+        continue;
+      }
+
+      const copiedPage = problemPdf.addPage(copiedPages.shift()!);
+      if (page.region) {
+        cropToRegion(copiedPage, page.region);
+      }
+      await stampWatermark(problemPdf, copiedPage, {
+        problem: problemId,
+        name: session.anonymize ? student?.anonymousCode || '' : page.studentName,
+        studentId: page.studentId,
+        studentNumber: student?.studentNumber || '',
+        page: page.pageNumber
+      }, watermarkSettings);
+    }
+  }
+
+  addOutline(problemPdf, entries, coverPages);
+  return { pdfBytes: await problemPdf.save(), coverPages };
+}
@@ -0,0 +1,264 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { PageRegion, ProblemPage, WatermarkSettings } from './types';
+import type { ProblemPdfSession } from './problemPdf';
+
+// Background processing of labeled students and the building of problem PDFs at finalize. Jobs wait
+// in a queue and run on a bounded pool of worker threads, so neither a fast labeler nor a large class
+// can stall the server with dozens of PDFs parsed at once.
+
+// Defaults to leaving one core for the server itself
+const WORKER_COUNT = Math.max(1, parseInt(process.env.PROCESSING_WORKERS || '') || Math.min(4, os.cpus().length - 1));
+// A failed job is tried once more before the student is marked as failed
+const MAX_ATTEMPTS = 2;
+
+export interface ProcessingInput {
+  studentId: number;
+  studentName: string;
+  pdfPath: string;
+  pageLabels: { [pageNumber: number]: string[] };
+  pageRegions: { [pageNumber: number]: PageRegion[] };
+}
+
+export type ProcessingResult = { [problemId: string]: ProblemPage[] };
+
+export interface ProblemPdfInput {
+  problemId: string;
+  session: ProblemPdfSession;
+  pages: ProblemPage[];
+  watermarkSettings: WatermarkSettings;
+}
+
+// The worker writes the problem PDF to disk itself, so only its path comes back
+export interface ProblemPdfResult {
+  filePath: string;
+  coverPages: number;
+}
+
+export type ProcessingTask =
+  | { type: 'student'; input: ProcessingInput }
+  | { type: 'problemPdf'; input: ProblemPdfInput };
+
+type TaskResult = ProcessingResult | ProblemPdfResult;
+
+export type WorkerMessage =
+  | { type: 'progress'; jobId: number; progress: number }
+  | { type: 'done'; jobId: number; result: TaskResult }
+  | { type: 'failed'; jobId: number; error: string };
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProcessingJob {
+  id: number;
+  sessionId: string;
+  studentId?: number; // Set for student jobs
+  problemId?: string; // Set for problem PDF jobs
+  status: JobStatus;
+  progress: number; // 0-1 of the current attempt
+  attempts: number;
+  error?: string;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+interface QueuedJob {
+  job: ProcessingJob;
+  task: ProcessingTask;
+  resolve: (result: TaskResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: QueuedJob | null;
+}
+
+const pending: QueuedJob[] = [];
+const pool: PoolWorker[] = [];
+// Latest job per student and per problem PDF, kept after it finished so its timing can still be reported
+const latestJobs = new Map<string, QueuedJob>();
+let nextJobId = 1;
+
+const studentKey = (sessionId: string, studentId: number) => `${sessionId}:student:${studentId}`;
+const problemKey = (sessionId: string, problemId: string) => `${sessionId}:problem:${problemId}`;
+const jobTarget = (job: ProcessingJob) => job.problemId !== undefined ? `problem PDF ${job.problemId}` : `student ${job.studentId}`;
+
+function spawnWorker() {
+  // Under tsx (npm run dev) the worker is TypeScript as well and needs tsx's loader
+  const file = path.join(__dirname, `processingWorker${path.extname(__filename)}`);
+  const worker = path.extname(file) === '.ts'
+    ? new Worker(`require('tsx/cjs'); require(${JSON.stringify(file)});`, { eval: true })
+    : new Worker(file);
+
+  const poolWorker: PoolWorker = { worker, current: null };
+  worker.on('message', (message: WorkerMessage) => handleMessage(poolWorker, message));
+  worker.on('error', error => replaceWorker(poolWorker, error.message));
+  worker.on('exit', code => replaceWorker(poolWorker, `Processing worker stopped with exit code ${code}`));
+  pool.push(poolWorker);
+  return poolWorker;
+}
+
+// A crashed worker fails its current attempt and leaves the pool - a new one is spawned when needed
+function replaceWorker(poolWorker: PoolWorker, error: string) {
+  const index = pool.indexOf(poolWorker);
+  if (index === -1) return;
+  pool.splice(index, 1);
+  const queued = poolWorker.current;
+  poolWorker.current = null;
+  if (queued) {
+    failAttempt(queued, error);
+  }
+  drain();
+}
+
+function handleMessage(poolWorker: PoolWorker, message: WorkerMessage) {
+  const queued = poolWorker.current;
+  if (!queued || queued.job.id !== message.jobId) return;
+
+  if (message.type === 'progress') {
+    queued.job.progress = message.progress;
+    return;
+  }
+
+  poolWorker.current = null;
+  if (message.type === 'done') {
+    queued.job.status = 'completed';
+    queued.job.progress = 1;
+    queued.job.finishedAt = Date.now();
+    queued.resolve(message.result);
+  } else {
+    failAttempt(queued, message.error);
+  }
+  drain();
+}
+
+function failAttempt(queued: QueuedJob, error: string) {
+  const { job } = queued;
+  job.error = error;
+  if (job.attempts < MAX_ATTEMPTS) {
+    console.warn(`Processing attempt ${job.attempts} failed for ${jobTarget(job)} - retrying: ${error}`);
+    job.status = 'queued';
+    pending.push(queued);
+    return;
+  }
+  job.status = 'failed';
+  job.finishedAt = Date.now();
+  queued.reject(new Error(error));
+}
+
+// Hand queued jobs to idle workers, spawning workers up to the pool size
+function drain() {
+  while (pending.length > 0) {
+    const poolWorker = pool.find(w => !w.current) || (pool.length < WORKER_COUNT ? spawnWorker() : null);
+    if (!poolWorker) return;
+
+    const queued = pending.shift()!;
+    queued.job.status = 'running';
+    queued.job.progress = 0;
+    queued.job.attempts++;
+    queued.job.startedAt = Date.now();
+    poolWorker.current = queued;
+    poolWorker.worker.postMessage({ jobId: queued.job.id, task: queued.task });
+  }
+}
+
+function cancelJob(queued: QueuedJob) {
+  const { job } = queued;
+  if (job.status === 'queued') {
+    pending.splice(pending.indexOf(queued), 1);
+  } else if (job.status === 'running') {
+    // A PDF being parsed can't be interrupted, so its worker is stopped and replaced
+    const poolWorker = pool.find(w => w.current === queued);
+    if (poolWorker) {
+      pool.splice(pool.indexOf(poolWorker), 1);
+      poolWorker.worker.terminate();
+    }
+  } else {
+    return;
+  }
+  job.status = 'cancelled';
+  job.finishedAt = Date.now();
+  queued.resolve(null);
+}
+
+// Queue a task under its key, cancelling the job with the same key that is still queued or running
+function enqueueTask(key: string, sessionId: string, target: Pick<ProcessingJob, 'studentId' | 'problemId'>, task: ProcessingTask) {
+  const previous = latestJobs.get(key);
+  if (previous) {
+    cancelJob(previous);
+  }
+
+  return new Promise<TaskResult | null>((resolve, reject) => {
+    const queued: QueuedJob = {
+      job: {
+        id: nextJobId++,
+        sessionId,
+        ...target,
+        status: 'queued',
+        progress: 0,
+        attempts: 0,
+        queuedAt: Date.now()
+      },
+      task,
+      resolve,
+      reject
+    };
+    latestJobs.set(key, queued);
+    pending.push(queued);
+    drain();
+  });
+}
+
+// Queue a student for processing, cancelling their job that is still queued or running.
+// Resolves with the student's problem pages, or null when the job was cancelled.
+export function enqueueProcessing(sessionId: string, input: ProcessingInput) {
+  const key = studentKey(sessionId, input.studentId);
+  return enqueueTask(key, sessionId, { studentId: input.studentId }, { type: 'student', input }) as Promise<ProcessingResult | null>;
+}
+
+// Queue the building of a problem PDF. Resolves with where it was written, or null when the job was cancelled.
+export function enqueueProblemPdf(sessionId: string, input: ProblemPdfInput) {
+  const key = problemKey(sessionId, input.problemId);
+  return enqueueTask(key, sessionId, { problemId: input.problemId }, { type: 'problemPdf', input }) as Promise<ProblemPdfResult | null>;
+}
+
+// Cancel every job of a session and forget them, e.g. when it is reset or gets new uploads
+export function cancelProcessing(sessionId: string) {
+  for (const [key, queued] of latestJobs) {
+    if (queued.job.sessionId === sessionId) {
+      cancelJob(queued);
+      latestJobs.delete(key);
+    }
+  }
+  drain();
+}
+
+export function processingJob(sessionId: string, studentId: number) {
+  const queued = latestJobs.get(studentKey(sessionId, studentId));
+  return queued ? jobTiming(queued.job) : null;
+}
+
+function jobTiming(job: ProcessingJob) {
+  const now = Date.now();
+  return {
+    ...job,
+    waitMs: (job.startedAt ?? job.finishedAt ?? now) - job.queuedAt,
+    runMs: job.startedAt ? (job.finishedAt ?? now) - job.startedAt : null
+  };
+}
+
+// Queue state for the status endpoint - the pool and queue are shared by all sessions
+export function processingQueueStatus(sessionId: string) {
+  const jobs = Array.from(latestJobs.values())
+    .filter(queued => queued.job.sessionId === sessionId)
+    .map(queued => jobTiming(queued.job));
+  return {
+    workers: WORKER_COUNT,
+    busyWorkers: pool.filter(w => w.current).length,
+    queueDepth: pending.length,
+    sessionQueueDepth: jobs.filter(job => job.status === 'queued').length,
+    jobs
+  };
+}
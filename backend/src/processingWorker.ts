@@ -0,0 +1,67 @@
+import { parentPort } from 'worker_threads';
+import fs from 'fs/promises';
+import { PDFDocument } from 'pdf-lib';
+import { ProblemPage } from './types';
+import { isProblemId } from './problemIds';
+import { buildProblemPdf } from './problemPdf';
+import { writeProblemPdf } from './pageStore';
+import type { ProblemPdfInput, ProcessingInput, ProcessingTask, WorkerMessage } from './processingQueue';
+
+// Runs in a worker thread of the processing queue, so parsing a student's upload or building a problem PDF
+// never blocks the server
+
+const post = (message: WorkerMessage) => parentPort!.postMessage(message);
+
+async function processStudent(jobId: number, input: ProcessingInput) {
+  try {
+    // Only the page count is needed - finalize copies the pages straight from the upload.
+    // Loading it here also reports a damaged PDF right away rather than at finalize.
+    const pdfBytes = await fs.readFile(input.pdfPath);
+    post({ type: 'progress', jobId, progress: 0.25 });
+    const pageCount = (await PDFDocument.load(pdfBytes)).getPageCount();
+    post({ type: 'progress', jobId, progress: 0.75 });
+
+    // Record a reference per (page, problem) and organize them by problem
+    const problemPages: { [problemId: string]: ProblemPage[] } = {};
+    for (const [pageNumStr, problemIds] of Object.entries(input.pageLabels)) {
+      const pageNum = parseInt(pageNumStr);
+      if (pageNum > pageCount) continue;
+
+      for (const problemId of problemIds.filter(isProblemId)) {
+        if (!problemPages[problemId]) {
+          problemPages[problemId] = [];
+        }
+        // The watermark label is stamped at finalize time, when the session's layout settings are known
+        problemPages[problemId].push({
+          studentId: input.studentId,
+          studentName: input.studentName,
+          pageNumber: pageNum,
+          region: (input.pageRegions[pageNum] || []).find(r => r.problemId === problemId)
+        });
+      }
+    }
+    post({ type: 'done', jobId, result: problemPages });
+  } catch (error) {
+    post({ type: 'failed', jobId, error: error instanceof Error ? error.message : 'Unknown processing error' });
+  }
+}
+
+async function createProblemPdf(jobId: number, input: ProblemPdfInput) {
+  try {
+    const { pdfBytes, coverPages } = await buildProblemPdf(input.session, input.problemId, input.pages, input.watermarkSettings);
+    post({ type: 'progress', jobId, progress: 0.75 });
+    // Written here rather than posted back, so the PDF's bytes never pass through the server's thread
+    const filePath = await writeProblemPdf(input.session, input.problemId, pdfBytes);
+    post({ type: 'done', jobId, result: { filePath, coverPages } });
+  } catch (error) {
+    post({ type: 'failed', jobId, error: error instanceof Error ? error.message : 'Unknown error creating the problem PDF' });
+  }
+}
+
+parentPort?.on('message', ({ jobId, task }: { jobId: number; task: ProcessingTask }) => {
+  if (task.type === 'student') {
+    processStudent(jobId, task.input);
+  } else {
+    createProblemPdf(jobId, task.input);
+  }
+});
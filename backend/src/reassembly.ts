@@ -0,0 +1,135 @@
+import fs from 'fs/promises';
+import { PDFDocument } from 'pdf-lib';
+import { PageRef, ProblemPage, SessionData, StudentData } from './types';
+import { compareProblemIds, normalizeProblemId } from './problemIds';
+
+const refKey = (ref: PageRef) => `${ref.studentId}:${ref.pageNumber}`;
+
+// Put pages in the order of a previous finalize when it contained exactly the same pages.
+// Returns null when the pages changed, so the caller picks a fresh order.
+export function orderLikeLayout(pages: ProblemPage[], layout: PageRef[] | undefined) {
+  if (!layout || layout.length !== pages.length) {
+    return null;
+  }
+  const positions = new Map(layout.map((ref, index) => [refKey(ref), index]));
+  if (!pages.every(page => positions.has(refKey(page)))) {
+    return null;
+  }
+  return [...pages].sort((a, b) => positions.get(refKey(a))! - positions.get(refKey(b))!);
+}
+
+export function toLayout(pages: ProblemPage[]): PageRef[] {
+  return pages.map(page => ({ studentId: page.studentId, pageNumber: page.pageNumber }));
+}
+
+export function sameLayout(a: PageRef[] | undefined, b: PageRef[] | undefined) {
+  return Boolean(a && b) && a!.length === b!.length && a!.every((ref, i) => refKey(ref) === refKey(b![i]));
+}
+
+// Graded PDFs are matched to problems by file name, e.g. "Problem_3a.pdf" or "problem 2.3 (graded).pdf"
+export function problemIdFromFileName(fileName: string) {
+  // Only the file name counts - folder names like "problems/" must not match
+  const baseName = fileName.split(/[\\/]/).pop() || '';
+  const match = baseName.replace(/\.pdf$/i, '').match(/problem[ _-]?([0-9a-z]+(\.[0-9a-z]+)*)/i);
+  return match ? normalizeProblemId(match[1]) : null;
+}
+
+// Problems that contain at least one page of this student
+export function problemsForStudent(session: SessionData, studentId: number) {
+  return Object.entries(session.finalLayout)
+    .filter(([, layout]) => layout.some(ref => ref.studentId === studentId))
+    .map(([problemId]) => problemId);
+}
+
+export function isStudentReady(session: SessionData, studentId: number) {
+  return problemsForStudent(session, studentId).every(problemId => session.gradedPdfPaths[problemId]);
+}
+
+// Pages of a problem PDF as it was created, including its cover pages
+export function expectedGradedPages(session: SessionData, problemId: string) {
+  return (session.finalLayout[problemId] || []).length + (session.finalCoverPages[problemId] || 0);
+}
+
+// Cover pages in front of the students in a graded problem PDF, or null when the page count doesn't fit.
+// Graders may have dropped the cover pages, so a PDF with only the student pages is fine too.
+export function gradedCoverPages(session: SessionData, problemId: string, pageCount: number) {
+  const studentPages = (session.finalLayout[problemId] || []).length;
+  const coverPages = session.finalCoverPages[problemId] || 0;
+  if (pageCount === studentPages + coverPages) return coverPages;
+  if (pageCount === studentPages) return 0;
+  return null;
+}
+
+// Returns a loader that reads each graded problem PDF once, even when reassembling many students.
+// firstPageIndex skips the cover pages.
+export function createGradedPdfLoader(session: SessionData) {
+  const docs = new Map<string, Promise<{ doc: PDFDocument; firstPageIndex: number }>>();
+
+  const load = async (problemId: string) => {
+    const filePath = session.gradedPdfPaths[problemId];
+    if (!filePath) {
+      throw new Error(`Graded PDF for problem ${problemId} has not been uploaded`);
+    }
+    const doc = await PDFDocument.load(await fs.readFile(filePath));
+
+    // The layout can change if the session is finalized again after the upload
+    const firstPageIndex = gradedCoverPages(session, problemId, doc.getPageCount());
+    if (firstPageIndex === null) {
+      throw new Error(`Graded PDF for problem ${problemId} has ${doc.getPageCount()} pages but ${expectedGradedPages(session, problemId)} were expected`);
+    }
+    return { doc, firstPageIndex };
+  };
+
+  return (problemId: string) => {
+    let doc = docs.get(problemId);
+    if (!doc) {
+      doc = load(problemId);
+      docs.set(problemId, doc);
+    }
+    return doc;
+  };
+}
+
+export type GradedPdfLoader = ReturnType<typeof createGradedPdfLoader>;
+
+// Rebuild one student's exam in original page order from the graded problem PDFs.
+// A page labeled with several problems appears once per problem (cropped to its region, if it has one);
+// unlabeled pages are copied from the original upload.
+export async function buildStudentPdf(session: SessionData, student: StudentData, loadGradedPdf: GradedPdfLoader) {
+  const gradedPages: { pageNumber: number; problemId: string; index: number }[] = [];
+  for (const [problemId, layout] of Object.entries(session.finalLayout)) {
+    layout.forEach((ref, index) => {
+      if (ref.studentId === student.id) {
+        gradedPages.push({ pageNumber: ref.pageNumber, problemId, index });
+      }
+    });
+  }
+
+  const originalPdf = await PDFDocument.load(await fs.readFile(student.originalPdfPath));
+  const studentPdf = await PDFDocument.create();
+
+  for (let pageNumber = 1; pageNumber <= originalPdf.getPageCount(); pageNumber++) {
+    const pagesForNumber = gradedPages
+      .filter(p => p.pageNumber === pageNumber)
+      .sort((a, b) => compareProblemIds(a.problemId, b.problemId));
+
+    if (pagesForNumber.length === 0) {
+      const [copiedPage] = await studentPdf.copyPages(originalPdf, [pageNumber - 1]);
+      studentPdf.addPage(copiedPage);
+      continue;
+    }
+
+    for (const gradedPage of pagesForNumber) {
+      const gradedPdf = await loadGradedPdf(gradedPage.problemId);
+      const [copiedPage] = await studentPdf.copyPages(gradedPdf.doc, [gradedPdf.firstPageIndex + gradedPage.index]);
+      studentPdf.addPage(copiedPage);
+    }
+  }
+
+  return Buffer.from(await studentPdf.save());
+}
+
+export function studentPdfFileName(student: StudentData) {
+  const safeName = student.name.replace(/[\\/:*?"<>|]/g, '_').trim();
+  return `${student.id}_${safeName || 'Student'}_graded.pdf`;
+}
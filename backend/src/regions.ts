@@ -0,0 +1,97 @@
+import { PDFPage } from 'pdf-lib';
+import { PageRegion } from './types';
+import { normalizeProblemId } from './problemIds';
+
+// Validate the regions of a label request or session file. A region narrows one of the page's
+// problem labels down to part of the page, so its problem must be among that page's labels.
+export function normalizePageRegions(
+  input: unknown,
+  pageLabels: { [pageNumber: number]: string[] }
+): { [pageNumber: number]: PageRegion[] } | string {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object') {
+    return 'Page regions are invalid';
+  }
+
+  const pageRegions: { [pageNumber: number]: PageRegion[] } = {};
+  for (const [pageKey, regions] of Object.entries(input)) {
+    const pageNumber = Number(pageKey);
+    if (!Number.isInteger(pageNumber) || pageNumber <= 0 || !Array.isArray(regions)) {
+      return `Invalid regions for page ${pageKey}`;
+    }
+
+    const normalized: PageRegion[] = [];
+    for (const region of regions) {
+      const problemId = normalizeProblemId(region?.problemId);
+      if (!problemId) {
+        return `Invalid problem ID "${region?.problemId}" for a region on page ${pageNumber}`;
+      }
+      if (!(pageLabels[pageNumber] || []).includes(problemId)) {
+        return `Page ${pageNumber} has a region for problem ${problemId} but isn't labeled with it`;
+      }
+      if (normalized.some(r => r.problemId === problemId)) {
+        return `Page ${pageNumber} has more than one region for problem ${problemId}`;
+      }
+
+      const { x, y, width, height } = region;
+      const inRange = [x, y, width, height].every(value => typeof value === 'number' && value >= 0 && value <= 1);
+      if (!inRange || width <= 0 || height <= 0 || x + width > 1.0001 || y + height > 1.0001) {
+        return `Region for problem ${problemId} on page ${pageNumber} must lie within the page`;
+      }
+      normalized.push({ problemId, x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) });
+    }
+    if (normalized.length > 0) {
+      pageRegions[pageNumber] = normalized;
+    }
+  }
+  return pageRegions;
+}
+
+// Shrink a page to a region, so only that part shows up (and can be annotated) in the problem PDF.
+// Regions are drawn on the page as displayed, so a rotated page's region is turned back first.
+export function cropToRegion(page: PDFPage, region: PageRegion) {
+  const { x, y, width, height } = region;
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+
+  // Region on the unrotated page, still normalized with the origin at the top left
+  const unrotated =
+    angle === 90 ? { x: y, y: 1 - x - width, width: height, height: width }
+      : angle === 180 ? { x: 1 - x - width, y: 1 - y - height, width, height }
+        : angle === 270 ? { x: 1 - y - height, y: x, width: height, height: width }
+          : { x, y, width, height };
+
+  // PDF coordinates start at the bottom left of the visible area
+  const box = page.getCropBox();
+  const left = box.x + unrotated.x * box.width;
+  const bottom = box.y + (1 - unrotated.y - unrotated.height) * box.height;
+  const regionWidth = unrotated.width * box.width;
+  const regionHeight = unrotated.height * box.height;
+
+  // Both boxes, so tools that ignore the crop box don't show the rest of the page either
+  page.setMediaBox(left, bottom, regionWidth, regionHeight);
+  page.setCropBox(left, bottom, regionWidth, regionHeight);
+}
+
+// Problems whose region on some page was added, moved or removed between two sets of regions
+export function changedRegionProblems(
+  before: { [pageNumber: number]: PageRegion[] } = {},
+  after: { [pageNumber: number]: PageRegion[] } = {}
+) {
+  const key = (pageNumber: string, region: PageRegion) =>
+    `${pageNumber}:${region.problemId}:${region.x}:${region.y}:${region.width}:${region.height}`;
+  const keysBefore = Object.entries(before).flatMap(([pageNumber, regions]) => regions.map(r => key(pageNumber, r)));
+  const keysAfter = Object.entries(after).flatMap(([pageNumber, regions]) => regions.map(r => key(pageNumber, r)));
+
+  const changed = new Set<string>();
+  for (const [pageNumber, regions] of [...Object.entries(before), ...Object.entries(after)]) {
+    for (const region of regions) {
+      const k = key(pageNumber, region);
+      if (!keysBefore.includes(k) || !keysAfter.includes(k)) {
+        changed.add(region.problemId);
+      }
+    }
+  }
+  return Array.from(changed);
+}
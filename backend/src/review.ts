@@ -0,0 +1,55 @@
+import { SessionData, StudentData } from './types';
+import { isProblemId } from './problemIds';
+import { sessionProblems } from './gradebook';
+
+export interface ReviewStudent {
+  id: number;
+  name: string;
+  studentNumber: string;
+  labeled: boolean;
+  processingStatus: StudentData['processingStatus'];
+  processingError?: string;
+  pages: { [problemId: string]: number[] }; // Page numbers per problem, in page order
+  missing: string[]; // Problems without any page
+  duplicatePages: number[]; // Pages labeled with more than one problem - they end up in several problem PDFs
+}
+
+// Students against problems as labeled so far - the overview before finalizing
+export function reviewMatrix(session: SessionData) {
+  const problems = sessionProblems(session);
+  const students: ReviewStudent[] = session.students.map(student => {
+    const pages: { [problemId: string]: number[] } = {};
+    const duplicatePages: number[] = [];
+    const pageNumbers = Object.keys(student.pageLabels).map(Number).sort((a, b) => a - b);
+    for (const pageNumber of pageNumbers) {
+      const problemIds = Array.from(new Set(student.pageLabels[pageNumber].filter(isProblemId)));
+      if (problemIds.length > 1) {
+        duplicatePages.push(pageNumber);
+      }
+      for (const problemId of problemIds) {
+        pages[problemId] = [...(pages[problemId] || []), pageNumber];
+      }
+    }
+
+    const labeled = Boolean(student.name) && pageNumbers.length > 0;
+    return {
+      id: student.id,
+      name: student.name,
+      studentNumber: student.studentNumber || '',
+      labeled,
+      processingStatus: student.processingStatus,
+      processingError: student.processingError,
+      pages,
+      missing: labeled ? problems.filter(problemId => !pages[problemId]) : [],
+      duplicatePages
+    };
+  });
+
+  return {
+    problems: problems.map(problemId => ({
+      id: problemId,
+      title: session.examProblems.find(p => p.id === problemId)?.title || ''
+    })),
+    students
+  };
+}
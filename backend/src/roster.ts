@@ -0,0 +1,151 @@
+import { RosterEntry, SessionData } from './types';
+import { parseCsv } from './csv';
+
+// Column headers we recognize, compared lower-case without spaces or punctuation
+const NAME_HEADERS = ['name', 'fullname', 'student', 'studentname'];
+const FIRST_NAME_HEADERS = ['firstname', 'givenname', 'first'];
+const LAST_NAME_HEADERS = ['lastname', 'surname', 'familyname', 'last'];
+const NUMBER_HEADERS = ['studentnumber', 'studentnr', 'studentid', 'number', 'nr', 'id', 'idnumber', 'matriculationnumber'];
+const EMAIL_HEADERS = ['email', 'emailaddress', 'mail'];
+
+// Words LMS exports add to submission file names that are never part of a name
+const SUBMISSION_NOISE = /^(submission|assignsubmission|file|onlinetext|late|attempt|exam)$/i;
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Order-insensitive key so "Doe, Jane", "jane doe" and "Jane Dóe" find each other
+export function nameKey(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+// Read a roster CSV with a header row. Needs a name column (or first and last name columns);
+// student number and email are optional. Returns the entries or an error message.
+export function parseRoster(text: string): RosterEntry[] | string {
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    return 'The roster needs a header row and at least one student';
+  }
+
+  const headers = rows[0].map(headerKey);
+  const column = (candidates: string[]) => headers.findIndex(header => candidates.includes(header));
+  const nameColumn = column(NAME_HEADERS);
+  const firstNameColumn = column(FIRST_NAME_HEADERS);
+  const lastNameColumn = column(LAST_NAME_HEADERS);
+  const numberColumn = column(NUMBER_HEADERS);
+  const emailColumn = column(EMAIL_HEADERS);
+  if (nameColumn === -1 && (firstNameColumn === -1 || lastNameColumn === -1)) {
+    return 'The roster needs a "Name" column (or "First name" and "Last name" columns)';
+  }
+
+  const cell = (row: string[], index: number) => index === -1 ? '' : (row[index] || '').trim();
+  const entries: RosterEntry[] = [];
+  for (const row of rows.slice(1)) {
+    const name = nameColumn !== -1
+      ? cell(row, nameColumn)
+      : `${cell(row, firstNameColumn)} ${cell(row, lastNameColumn)}`.trim();
+    if (!name) continue;
+    entries.push({ name, studentNumber: cell(row, numberColumn), email: cell(row, emailColumn) });
+  }
+  if (entries.length === 0) {
+    return 'No students found in the roster';
+  }
+  return entries;
+}
+
+const capitalize = (word: string) => word === word.toLowerCase() ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+
+// Guess name and student number from an upload's file or folder name. Handles LMS exports like
+// "doe_jane_12345_submission.pdf" (last name first) and "Jane Doe_12345_assignsubmission_file_.pdf".
+export function parseSubmissionName(sourceName: string) {
+  const tokens = sourceName
+    .replace(/\.[a-z0-9]+$/i, '')
+    .split('_')
+    .map(token => token.trim())
+    .filter(Boolean);
+  const numberIndex = tokens.findIndex(token => /^\d{3,}$/.test(token));
+  const nameTokens = (numberIndex === -1 ? tokens : tokens.slice(0, numberIndex))
+    .filter(token => !SUBMISSION_NOISE.test(token) && !/\d/.test(token));
+
+  let name = '';
+  if (nameTokens.length === 1) {
+    name = nameTokens[0].split(/\s+/).map(capitalize).join(' ');
+  } else if (nameTokens.length === 2) {
+    // lastname_firstname
+    name = `${capitalize(nameTokens[1])} ${capitalize(nameTokens[0])}`;
+  }
+  return { name, studentNumber: numberIndex === -1 ? '' : tokens[numberIndex] };
+}
+
+export function findRosterEntry(roster: RosterEntry[], name: string, studentNumber: string) {
+  const byNumber = studentNumber
+    ? roster.find(entry => entry.studentNumber && entry.studentNumber.toLowerCase() === studentNumber.toLowerCase())
+    : undefined;
+  const key = nameKey(name);
+  return byNumber || (key ? roster.find(entry => nameKey(entry.name) === key) : undefined);
+}
+
+// Pre-filled name and student number for an uploaded submission - the roster wins when the file matches someone
+export function suggestStudent(session: SessionData, sourceName: string | undefined) {
+  if (!sourceName) return { name: '', studentNumber: '' };
+  const parsed = parseSubmissionName(sourceName);
+  const entry = findRosterEntry(session.roster, parsed.name, parsed.studentNumber);
+  return {
+    name: entry?.name || parsed.name,
+    studentNumber: entry?.studentNumber || parsed.studentNumber
+  };
+}
+
+// Fill in names and numbers from the roster for students that haven't been labeled yet
+export function applyRoster(session: SessionData) {
+  let changed = 0;
+  for (const student of session.students) {
+    if (Object.keys(student.pageLabels).length > 0) continue;
+    const { name, studentNumber } = suggestStudent(session, student.sourceName);
+    if ((name && name !== student.name) || (studentNumber && studentNumber !== student.studentNumber)) {
+      student.name = name || student.name;
+      student.studentNumber = studentNumber || student.studentNumber;
+      changed++;
+    }
+  }
+  return changed;
+}
+
+// Roster entries with the students they were matched to, names or numbers used for more than one
+// student, and who on the roster has no submission
+export function rosterStatus(session: SessionData) {
+  const studentsByKey = new Map<string, number[]>();
+  const studentsByNumber = new Map<string, number[]>();
+  for (const student of session.students) {
+    const key = nameKey(student.name);
+    if (key) studentsByKey.set(key, [...(studentsByKey.get(key) || []), student.id]);
+    const number = (student.studentNumber || '').toLowerCase();
+    if (number) studentsByNumber.set(number, [...(studentsByNumber.get(number) || []), student.id]);
+  }
+
+  // A roster entry matches students with its number, or with its name if they have no number yet
+  const roster = session.roster.map(entry => {
+    const byNumber = entry.studentNumber ? studentsByNumber.get(entry.studentNumber.toLowerCase()) || [] : [];
+    const byName = (studentsByKey.get(nameKey(entry.name)) || [])
+      .filter(id => !session.students.find(student => student.id === id)?.studentNumber);
+    return { ...entry, studentIds: Array.from(new Set([...byNumber, ...byName])).sort((a, b) => a - b) };
+  });
+  const duplicates = session.students
+    .filter(student =>
+      (studentsByKey.get(nameKey(student.name)) || []).length > 1 ||
+      (studentsByNumber.get((student.studentNumber || '').toLowerCase()) || []).length > 1)
+    .map(student => ({ id: student.id, name: student.name, studentNumber: student.studentNumber || '' }));
+
+  return {
+    roster,
+    students: session.students.map(student => ({ id: student.id, name: student.name, studentNumber: student.studentNumber || '' })),
+    duplicates,
+    missing: roster.filter(entry => entry.studentIds.length === 0).map(entry => entry.name)
+  };
+}
@@ -5,17 +5,52 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import fs from 'fs/promises';
-import { PDFDocument, rgb, StandardFonts, degrees } from 'pdf-lib';
+import { createReadStream } from 'fs';
+import { PDFDocument } from 'pdf-lib';
 import os from 'os';
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { PageRegion, ProblemPage, SessionData, StudentData } from './types';
+import { loadSessions, saveSession, deleteSession } from './sessionStore';
+import { DEFAULT_WATERMARK_SETTINGS, PREVIOUS_DEFAULT_TEMPLATE, parseWatermarkSettings } from './watermark';
+import { ANONYMOUS_WATERMARK_TEMPLATE, assignAnonymousCodes } from './anonymization';
+import { createOrderSeed, parseStudentOrder, sortByStudent, studentRanks } from './studentOrder';
+import { toCsv } from './csv';
+import { gradebookRows, parsePoints, sessionProblems, toXlsx } from './gradebook';
+import { normalizePageLabels, normalizeProblemId, sortProblemIds } from './problemIds';
+import { parseExamDefinition, undefinedLabels, usedProblemIds } from './examDefinition';
+import { detectBlankPages, parseSplitPlan, splitBatchPdf } from './batchSplit';
+import { Submission, expandUpload } from './submissions';
+import { reviewMatrix } from './review';
+import { PLACEHOLDER_PAGE_NUMBER, createPlaceholderPages } from './placeholders';
+import { changedRegionProblems, normalizePageRegions } from './regions';
+import { clearPageStore, removeStoredFiles } from './pageStore';
+import { cancelProcessing, enqueueProblemPdf, enqueueProcessing, processingJob, processingQueueStatus } from './processingQueue';
+import { closeSessionEvents, publish, publishFailure, publishStudent, publishStudents, subscribe } from './sessionEvents';
+import { applyRoster, parseRoster, rosterStatus, suggestStudent } from './roster';
+import {
+  buildStudentPdf,
+  createGradedPdfLoader,
+  expectedGradedPages,
+  gradedCoverPages,
+  isStudentReady,
+  orderLikeLayout,
+  problemIdFromFileName,
+  problemsForStudent,
+  sameLayout,
+  studentPdfFileName,
+  toLayout
+} from './reassembly';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const UPLOAD_ROOT = path.join(os.tmpdir(), 'exam-grader-uploads');
 
 // Configure multer for file uploads with disk storage for better performance
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
-    // Use system temp directory
-    const tempDir = path.join(os.tmpdir(), 'exam-grader-uploads');
+    // Each session gets its own folder in the system temp directory
+    const tempDir = path.join(UPLOAD_ROOT, req.params.sid);
     try {
       await fs.mkdir(tempDir, { recursive: true });
       cb(null, tempDir);
@@ -24,163 +59,362 @@ const storage = multer.diskStorage({
     }
   },
   filename: (req, file, cb) => {
-    // Generate unique filename to avoid conflicts
+    // Generate unique filename to avoid conflicts - keep the extension, uploads can be images or zips
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + '.pdf');
+    const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '') || '.pdf';
+    cb(null, file.fieldname + '-' + uniqueSuffix + extension);
   }
 });
-const upload = multer({ storage });
+// preservePath keeps the folder names of folder uploads, which group a student's photos
+const upload = multer({ storage, preservePath: true });
+
+// Multer reads file names as latin1, but browsers send UTF-8 - without this Öberg comes out garbled
+const uploadedFileName = (file: Express.Multer.File) => Buffer.from(file.originalname, 'latin1').toString('utf8');
 
 app.use(cors());
 app.use(express.json());
 app.use(express.static('public'));
 
-// Store session data with file paths for better memory management
-interface StudentData {
-  id: number;
-  name: string;
-  originalPdfPath: string; // File path instead of buffer for better memory usage
-  pageLabels: { [pageNumber: number]: number[] }; // pageNumber -> array of problemNumbers
-  processingStatus: 'pending' | 'processing' | 'completed' | 'error';
-  processingError?: string;
+// All exam sessions on this server, keyed by session id
+const sessions: { [sessionId: string]: SessionData } = {};
+
+// Save a session's students to disk - failures are logged but never break a request
+function persistSession(session: SessionData) {
+  // Background jobs can finish after their session was deleted - don't bring it back
+  if (sessions[session.id] !== session) {
+    return;
+  }
+  saveSession(session).catch(error => {
+    console.error(`Failed to persist session ${session.id}:`, error);
+  });
+}
+
+// Graded PDFs only line up with the layout they were made from, so they go when it changes
+async function removeGradedPdf(session: SessionData, problemId: string) {
+  const filePath = session.gradedPdfPaths[problemId];
+  if (!filePath) return;
+  delete session.gradedPdfPaths[problemId];
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    console.warn(`Could not delete graded PDF: ${filePath}`, error);
+  }
+}
+
+// Sessions whose problem PDFs are being created. Anything that would discard them (relabeling,
+// retrying, a new upload) has to wait, or finalize would report PDFs that no longer exist.
+const finalizingSessions = new Set<string>();
+const FINALIZING_ERROR = 'The problem PDFs are being created - try again when that is done';
+// Uploads, batch splits, relabels and retries still running per session. They claim the session before
+// their first await and finalize refuses to start while one is running, so the two never overlap.
+const changingSessions = new Map<string, number>();
+
+// Claim the session for a change to its students - refused while its problem PDFs are being created
+function beginChange(sessionId: string) {
+  if (finalizingSessions.has(sessionId)) return false;
+  changingSessions.set(sessionId, (changingSessions.get(sessionId) || 0) + 1);
+  return true;
+}
+
+function endChange(sessionId: string) {
+  const count = (changingSessions.get(sessionId) || 0) - 1;
+  if (count > 0) {
+    changingSessions.set(sessionId, count);
+  } else {
+    changingSessions.delete(sessionId);
+  }
+}
+
+// Problem PDFs are rebuilt on the next finalize - the files of the last one are dropped
+async function discardProblemPdfs(session: SessionData) {
+  const filePaths = Object.values(session.finalPdfPaths);
+  session.finalPdfPaths = {};
+  await removeStoredFiles(filePaths);
+}
+
+function isLabeled(student: StudentData) {
+  return Boolean(student.name) && Object.keys(student.pageLabels).length > 0;
+}
+
+function summarizeSession(session: SessionData) {
+  return {
+    id: session.id,
+    name: session.name,
+    createdAt: session.createdAt,
+    anonymize: session.anonymize,
+    totalStudents: session.students.length,
+    labeledStudents: session.students.filter(isLabeled).length,
+    hasBatch: Boolean(session.batchPdfPath)
+  };
+}
+
+// Start over with one student per PDF - old student files, problem PDFs and graded PDFs are dropped
+async function replaceStudents(session: SessionData, submissions: Submission[]) {
+  cancelProcessing(session.id);
+  for (const student of session.students) {
+    try {
+      await fs.unlink(student.originalPdfPath);
+    } catch (error) {
+      console.warn(`Could not delete temp file: ${student.originalPdfPath}`, error);
+    }
+  }
+
+  for (const problemId of Object.keys(session.gradedPdfPaths)) {
+    await removeGradedPdf(session, problemId);
+  }
+
+  session.problemPages = {};
+  session.finalPdfPaths = {};
+  session.finalLayout = {};
+  await clearPageStore(session);
+  session.students = submissions.map((submission, i) => {
+    // Checked or typed during labeling
+    const { name, studentNumber } = suggestStudent(session, submission.sourceName);
+    return {
+      id: i + 1,
+      name,
+      studentNumber: studentNumber || undefined,
+      sourceName: submission.sourceName || undefined,
+      originalPdfPath: submission.pdfPath, // Store file path instead of buffer
+      pageLabels: {},
+      processingStatus: 'pending'
+    };
+  });
+  if (session.anonymize) {
+    assignAnonymousCodes(session.students);
+  }
+  persistSession(session);
+  publishStudents(session);
 }
 
-interface ProblemPage {
-  studentId: number;
-  studentName: string;
-  pageNumber: number;
-  pdfData: Buffer;
+async function removeBatchPdf(session: SessionData) {
+  if (!session.batchPdfPath) return;
+  try {
+    await fs.unlink(session.batchPdfPath);
+  } catch (error) {
+    console.warn(`Could not delete batch PDF: ${session.batchPdfPath}`, error);
+  }
+  delete session.batchPdfPath;
 }
 
-let sessionData: {
-  students: StudentData[];
-  problemPages: { [problemNumber: number]: ProblemPage[] };
-  finalPdfs: { [problemNumber: number]: Buffer };
-} = {
-  students: [],
-  problemPages: {},
-  finalPdfs: {}
-};
-
-// Background processing function
-async function processStudentInBackground(studentId: number, studentName: string, pageLabels: { [pageNumber: number]: number[] }) {
-  const student = sessionData.students.find(s => s.id === studentId);
+// Background processing function. Replaces the student's previous problem pages, so relabeling never duplicates them.
+// A problem with a region on a page only gets that part of the page.
+async function processStudentInBackground(
+  session: SessionData,
+  studentId: number,
+  studentName: string,
+  pageLabels: { [pageNumber: number]: string[] },
+  pageRegions: { [pageNumber: number]: PageRegion[] } = {}
+) {
+  const student = session.students.find(s => s.id === studentId);
   if (!student) {
-    console.error(`Student ${studentId} not found for background processing`);
+    console.error(`Student ${studentId} not found in session ${session.id} for background processing`);
     return;
   }
 
   try {
-    console.log(`Starting background processing for student ${studentId} (${studentName})`);
+    console.log(`Queueing background processing for student ${studentId} (${studentName})`);
     student.processingStatus = 'processing';
+    delete student.processingError;
+    persistSession(session);
+    publishStudent(session, student);
 
-    // Load PDF from disk and create labeled pages
-    let pdfBuffer = await fs.readFile(student.originalPdfPath);
-    const originalPdfDoc = await PDFDocument.load(pdfBuffer);
-    const originalPages = originalPdfDoc.getPages();
-    
-    // Add labels to each page and organize by problem
-    for (const [pageNumStr, problemNumbers] of Object.entries(pageLabels)) {
-      const pageNum = parseInt(pageNumStr);
-      const problemNums = problemNumbers as number[];
-      
-      if (pageNum <= originalPages.length && problemNums.length > 0) {
-        // For each problem on this page, create a separate labeled copy
-        for (const problemNumber of problemNums) {
-          if (problemNumber > 0) {
-            // Create a new PDF document for this specific problem page
-            const problemPdf = await PDFDocument.create();
-            const helveticaFont = await problemPdf.embedFont(StandardFonts.Helvetica);
-            
-            // Copy the page from the original PDF
-            const [copiedPage] = await problemPdf.copyPages(originalPdfDoc, [pageNum - 1]);
-            problemPdf.addPage(copiedPage);
-            
-            // Get the added page to modify it
-            const problemPage = problemPdf.getPages()[0];
-            
-            // Add red watermark label vertically on the right edge
-            const { width, height } = problemPage.getSize();
-            const labelText = `Problem ${problemNumber} - ${studentName} - Student nr: ${studentId}`;
-            
-            // Draw the entire text string rotated 90 degrees
-            const fontSize = 20;
-            const textWidth = helveticaFont.widthOfTextAtSize(labelText, fontSize);
-            
-            problemPage.drawText(labelText, {
-              x: width - 20, // Right edge position
-              y: height / 2 - textWidth / 2, // Center the text vertically (adjust for rotation)
-              size: fontSize,
-              font: helveticaFont,
-              color: rgb(1, 0, 0), // Red color
-              opacity: 0.3, // Semi-transparent
-              rotate: degrees(90), // Rotate the entire string 90 degrees counter-clockwise
-            });
-
-            // Save the single-page PDF
-            const singlePagePdfBytes = await problemPdf.save();
-
-            // Store in problem pages
-            if (!sessionData.problemPages[problemNumber]) {
-              sessionData.problemPages[problemNumber] = [];
-            }
-            
-            sessionData.problemPages[problemNumber].push({
-              studentId,
-              studentName,
-              pageNumber: pageNum,
-              pdfData: Buffer.from(singlePagePdfBytes)
-            });
-          }
-        }
-      }
+    // Relabeling the student or resetting the session cancels this job - a newer one takes over
+    const newPages = await enqueueProcessing(session.id, {
+      studentId,
+      studentName,
+      pdfPath: student.originalPdfPath,
+      pageLabels,
+      pageRegions
+    });
+    if (!newPages) {
+      console.log(`Discarding cancelled processing job for student ${studentId}`);
+      return;
     }
 
-    // Clean up the loaded PDF buffer from memory
-    pdfBuffer = null as any;
+    // Swap the student's old problem pages for the new ones, keeping other students' order
+    for (const problemId of Object.keys(session.problemPages)) {
+      session.problemPages[problemId] = session.problemPages[problemId].filter(page => page.studentId !== studentId);
+      if (session.problemPages[problemId].length === 0) {
+        delete session.problemPages[problemId];
+      }
+    }
+    for (const [problemId, pages] of Object.entries(newPages)) {
+      session.problemPages[problemId] = [...(session.problemPages[problemId] || []), ...pages]
+        .sort((a, b) => a.studentId - b.studentId);
+    }
     
     // Mark as completed
     student.processingStatus = 'completed';
+    persistSession(session);
+    publishStudent(session, student);
     
     // Add some logging to track memory usage and performance
     const memUsage = process.memoryUsage();
-    console.log(`Completed background processing for student ${studentId} (${studentName}) - Problem pages created: ${Object.keys(pageLabels).length} pages with labels`);
-    console.log(`Total problem types in session: ${Object.keys(sessionData.problemPages).length}`);
+    console.log(`Completed background processing for student ${studentId} (${studentName}) - Problem pages recorded: ${Object.keys(pageLabels).length} pages with labels`);
+    console.log(`Total problem types in session: ${Object.keys(session.problemPages).length}`);
     console.log(`Memory usage - RSS: ${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap: ${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
-    
-    // Force garbage collection for better memory management
-    if (global.gc) {
-      global.gc();
-    }
   } catch (error) {
     console.error(`Background processing failed for student ${studentId}:`, error);
     student.processingStatus = 'error';
     student.processingError = error instanceof Error ? error.message : 'Unknown processing error';
+    persistSession(session);
+    publishStudent(session, student);
+    publishFailure(session.id, `Processing failed for ${student.name || `student ${studentId}`}: ${student.processingError}`, studentId);
   }
 }
 
-// Reset session with cleanup
-app.post('/api/reset', async (req, res) => {
-  try {
-    // Clean up temporary files
-    for (const student of sessionData.students) {
+// Reload persisted sessions on startup. Problem pages and PDFs aren't part of the session file, so
+// stored problem PDFs are cleared and every student that was already labeled is queued for processing again.
+async function restoreSessions() {
+  const persistedSessions = await loadSessions();
+  const studentsToRebuild: { session: SessionData; student: StudentData }[] = [];
+
+  for (const persisted of persistedSessions) {
+    const session: SessionData = {
+      ...persisted,
+      watermark: !persisted.watermark
+        ? DEFAULT_WATERMARK_SETTINGS
+        : persisted.watermark.template === PREVIOUS_DEFAULT_TEMPLATE
+          ? { ...persisted.watermark, template: DEFAULT_WATERMARK_SETTINGS.template }
+          : persisted.watermark,
+      anonymize: Boolean(persisted.anonymize),
+      placeholderPages: Boolean(persisted.placeholderPages),
+      // Blind grading used to shuffle students, so older blind sessions keep a random order
+      studentOrder: persisted.studentOrder || (persisted.anonymize ? 'random' : 'upload'),
+      orderSeed: persisted.orderSeed || createOrderSeed(),
+      examProblems: persisted.examProblems || [],
+      roster: persisted.roster || [],
+      problemPages: {},
+      finalPdfPaths: {},
+      finalLayout: persisted.finalLayout || {},
+      finalCoverPages: persisted.finalCoverPages || {},
+      coverPage: Boolean(persisted.coverPage),
+      gradedPdfPaths: persisted.gradedPdfPaths || {},
+      maxPoints: persisted.maxPoints || {}
+    };
+    await clearPageStore(session);
+
+    for (const student of session.students) {
+      // Sessions saved before string problem IDs stored numbers (and -1 for "not a problem")
+      const pageLabels = normalizePageLabels(student.pageLabels);
+      student.pageLabels = typeof pageLabels === 'string' ? {} : pageLabels;
+      const pageRegions = normalizePageRegions(student.pageRegions, student.pageLabels);
+      student.pageRegions = typeof pageRegions === 'string' ? {} : pageRegions;
+
       try {
-        await fs.unlink(student.originalPdfPath);
-      } catch (error) {
-        console.warn(`Could not delete temp file: ${student.originalPdfPath}`, error);
+        await fs.access(student.originalPdfPath);
+      } catch {
+        student.processingStatus = 'error';
+        student.processingError = 'Original PDF no longer exists on disk';
+        continue;
+      }
+
+      if (isLabeled(student)) {
+        // Mark as processing right away so finalize waits for the rebuild
+        student.processingStatus = 'processing';
+        studentsToRebuild.push({ session, student });
+      } else {
+        student.processingStatus = 'pending';
       }
     }
-    
-    sessionData = {
+
+    sessions[session.id] = session;
+    console.log(`Restored session "${session.name}" (${session.id}) with ${session.students.length} students`);
+  }
+
+  if (studentsToRebuild.length === 0) {
+    return;
+  }
+  console.log(`Rebuilding problem pages for ${studentsToRebuild.length} restored students`);
+
+  // The processing queue limits how many are rebuilt at once
+  for (const { session, student } of studentsToRebuild) {
+    processStudentInBackground(session, student.id, student.name, student.pageLabels, student.pageRegions)
+      .catch(error => {
+        console.error(`Failed to rebuild student ${student.id} of session ${session.id}:`, error);
+      });
+  }
+}
+
+// Resolve the session for every /api/sessions/:sid route before any handler (or multer) runs
+app.param('sid', (req, res, next, sid: string) => {
+  const session = sessions[sid];
+  if (!session) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  res.locals.session = session;
+  next();
+});
+
+// List all sessions for the session picker
+app.get('/api/sessions', (req, res) => {
+  const sessionList = Object.values(sessions)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarizeSession);
+  res.json({ sessions: sessionList });
+});
+
+// Create a new named exam session
+app.post('/api/sessions', (req, res) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'Session name is required' });
+    }
+
+    const id = crypto.randomUUID();
+    const session: SessionData = {
+      id,
+      name,
+      createdAt: new Date().toISOString(),
+      uploadDir: path.join(UPLOAD_ROOT, id),
+      watermark: DEFAULT_WATERMARK_SETTINGS,
+      anonymize: Boolean(req.body.anonymize),
+      placeholderPages: false,
+      studentOrder: req.body.anonymize ? 'random' : 'upload',
+      orderSeed: createOrderSeed(),
+      examProblems: [],
+      roster: [],
       students: [],
       problemPages: {},
-      finalPdfs: {}
+      finalPdfPaths: {},
+      finalLayout: {},
+      finalCoverPages: {},
+      coverPage: false,
+      gradedPdfPaths: {},
+      maxPoints: {}
     };
-    
-    // Force garbage collection if available
-    if (global.gc) {
-      global.gc();
+    sessions[id] = session;
+    persistSession(session);
+
+    console.log(`Created session "${name}" (${id})${session.anonymize ? ' in blind grading mode' : ''}`);
+    res.json({ success: true, session: summarizeSession(session) });
+  } catch (error) {
+    console.error('Create session error:', error);
+    res.status(500).json({ error: 'Failed to create session' });
+  }
+});
+
+// Reset a session - drops only this session and its temporary files
+app.delete('/api/sessions/:sid', async (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    if (finalizingSessions.has(session.id)) {
+      return res.status(409).json({ error: FINALIZING_ERROR });
+    }
+    delete sessions[session.id];
+    cancelProcessing(session.id);
+    closeSessionEvents(session.id);
+
+    // Clean up temporary files
+    try {
+      await fs.rm(session.uploadDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Could not delete temp directory: ${session.uploadDir}`, error);
     }
+    await deleteSession(session.id);
+    console.log(`Deleted session "${session.name}" (${session.id})`);
     
     res.json({ success: true });
   } catch (error) {
@@ -190,64 +424,169 @@ app.post('/api/reset', async (req, res) => {
 });
 
 // Upload endpoint
-app.post('/api/upload', upload.array('pdfs'), async (req, res) => {
+app.post('/api/sessions/:sid/upload', upload.array('pdfs'), async (req, res) => {
+  const session: SessionData = res.locals.session;
+  const files = Array.isArray(req.files) ? req.files : [];
+  let submissions: Submission[] = [];
+  const discardFiles = () => removeStoredFiles([...files.map(file => file.path), ...submissions.map(s => s.pdfPath)]);
+  if (!beginChange(session.id)) {
+    await discardFiles();
+    return res.status(409).json({ error: FINALIZING_ERROR });
+  }
+
+  const previousStudents = session.students;
   try {
-    if (!req.files || !Array.isArray(req.files)) {
+    if (files.length === 0) {
       return res.status(400).json({ error: 'No files uploaded' });
     }
 
-    // Reset session data
-    sessionData.students = [];
-    sessionData.problemPages = {};
-    sessionData.finalPdfs = {};
-
     // Process uploaded PDFs - store file paths for better memory management
-    const students: StudentData[] = [];
-    console.log(`Processing ${req.files.length} uploaded PDF files...`);
-    
-    for (let i = 0; i < req.files.length; i++) {
-      const file = req.files[i];
-      console.log(`Processing uploaded file ${i + 1}/${req.files.length}: ${file.originalname}, size: ${(file.size / 1024 / 1024).toFixed(2)}MB, path: ${file.path}`);
-      
-      students.push({
-        id: i + 1,
-        name: '', // Will be filled during labeling
-        originalPdfPath: file.path, // Store file path instead of buffer
-        pageLabels: {},
-        processingStatus: 'pending'
-      });
-      
-      // Force garbage collection every 10 files for large batches
-      if (i > 0 && i % 10 === 0 && global.gc) {
-        global.gc();
-      }
+    console.log(`Processing ${files.length} uploaded PDF files...`);
+    files.forEach((file, i) => {
+      console.log(`Processing uploaded file ${i + 1}/${files.length}: ${file.originalname}, size: ${(file.size / 1024 / 1024).toFixed(2)}MB, path: ${file.path}`);
+    });
+
+    // Zips are unpacked and images turned into PDF pages - one PDF per student either way
+    const expanded = await expandUpload(
+      files.map(file => ({ path: file.path, originalname: uploadedFileName(file) })),
+      session.uploadDir
+    );
+    submissions = expanded.submissions;
+    const { skipped } = expanded;
+    if (skipped.length > 0) {
+      console.warn(`Skipped ${skipped.length} unsupported or damaged files: ${skipped.join(', ')}`);
     }
-    
-    console.log(`Successfully processed all ${students.length} PDF files`);
-    
-    // Final garbage collection after upload processing
-    if (global.gc) {
-      global.gc();
+    if (submissions.length === 0) {
+      return res.status(400).json({ error: 'No PDFs or images found in the upload', skipped });
     }
 
-    sessionData.students = students;
+    // Uploading again replaces this session's students (and any scanned batch)
+    await removeBatchPdf(session);
+    await replaceStudents(session, submissions);
+    const students = session.students;
+    console.log(`Successfully processed all ${students.length} student submissions`);
 
     res.json({
       success: true,
       totalStudents: students.length,
-      message: `Successfully uploaded ${students.length} PDF files`
+      skipped,
+      message: `Successfully uploaded ${students.length} student submissions`
     });
   } catch (error) {
     console.error('Upload error:', error);
+    // Once the new students are in, their PDFs are the uploaded files - only an upload that failed before is discarded
+    if (session.students === previousStudents) {
+      await discardFiles();
+    }
     res.status(500).json({ error: 'Failed to process uploaded files' });
+  } finally {
+    endChange(session.id);
+  }
+});
+
+// Upload one scanned PDF of the whole class, to be split into students afterwards
+app.post('/api/sessions/:sid/batch', upload.single('batch'), async (req, res) => {
+  const session: SessionData = res.locals.session;
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    let pageCount: number;
+    let blankPages: number[];
+    try {
+      const batchPdf = await PDFDocument.load(await fs.readFile(req.file.path));
+      pageCount = batchPdf.getPageCount();
+      blankPages = detectBlankPages(batchPdf);
+    } catch {
+      await fs.unlink(req.file.path).catch(() => undefined);
+      return res.status(400).json({ error: `${req.file.originalname} is not a readable PDF` });
+    }
+
+    await removeBatchPdf(session);
+    session.batchPdfPath = req.file.path;
+    persistSession(session);
+
+    console.log(`Uploaded batch PDF for session ${session.id}: ${pageCount} pages, ${blankPages.length} blank`);
+    res.json({ success: true, pageCount, blankPages });
+  } catch (error) {
+    console.error('Batch upload error:', error);
+    res.status(500).json({ error: 'Failed to process batch PDF' });
+  }
+});
+
+// Page count and likely separator pages of the uploaded batch
+app.get('/api/sessions/:sid/batch/info', async (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    if (!session.batchPdfPath) {
+      return res.status(404).json({ error: 'No batch PDF uploaded' });
+    }
+    const batchPdf = await PDFDocument.load(await fs.readFile(session.batchPdfPath));
+    res.json({ pageCount: batchPdf.getPageCount(), blankPages: detectBlankPages(batchPdf) });
+  } catch (error) {
+    console.error('Batch info error:', error);
+    res.status(500).json({ error: 'Failed to read batch PDF' });
+  }
+});
+
+// The batch PDF itself, for marking where students start
+app.get('/api/sessions/:sid/batch', async (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    if (!session.batchPdfPath) {
+      return res.status(404).json({ error: 'No batch PDF uploaded' });
+    }
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.sendFile(session.batchPdfPath);
+  } catch (error) {
+    console.error('Batch download error:', error);
+    res.status(500).json({ error: 'Failed to serve batch PDF' });
+  }
+});
+
+// Split the batch into students: { starts: [pages a new student starts on], skip: [separator pages] }
+app.post('/api/sessions/:sid/batch/split', async (req, res) => {
+  const session: SessionData = res.locals.session;
+  if (!beginChange(session.id)) {
+    return res.status(409).json({ error: FINALIZING_ERROR });
+  }
+
+  try {
+    if (!session.batchPdfPath) {
+      return res.status(404).json({ error: 'No batch PDF uploaded' });
+    }
+
+    const batchPdf = await PDFDocument.load(await fs.readFile(session.batchPdfPath));
+    const segments = parseSplitPlan(req.body || {}, batchPdf.getPageCount());
+    if (typeof segments === 'string') {
+      return res.status(400).json({ error: segments });
+    }
+
+    const pdfPaths = await splitBatchPdf(session.batchPdfPath, segments);
+    await replaceStudents(session, pdfPaths.map(pdfPath => ({ pdfPath, sourceName: '' })));
+    console.log(`Split batch PDF of session ${session.id} into ${segments.length} students`);
+
+    res.json({
+      success: true,
+      totalStudents: session.students.length,
+      message: `Split the batch into ${session.students.length} students`
+    });
+  } catch (error) {
+    console.error('Batch split error:', error);
+    res.status(500).json({ error: 'Failed to split batch PDF' });
+  } finally {
+    endChange(session.id);
   }
 });
 
 // Get student PDF for labeling - serve as binary for better performance
-app.get('/api/student/:id', async (req, res) => {
+app.get('/api/sessions/:sid/student/:id', async (req, res) => {
   try {
+    const session: SessionData = res.locals.session;
     const studentId = parseInt(req.params.id);
-    const student = sessionData.students.find(s => s.id === studentId);
+    const student = session.students.find(s => s.id === studentId);
     
     if (!student) {
       return res.status(404).json({ error: 'Student not found' });
@@ -269,10 +608,12 @@ app.get('/api/student/:id', async (req, res) => {
     res.setHeader('Content-Length', stats.size.toString());
     res.setHeader('Cache-Control', 'no-cache');
     
-    // Include student metadata in custom headers
+    // Include student metadata in custom headers - URI-encoded, header values can't carry names like 王芳
     res.setHeader('X-Student-Id', student.id.toString());
-    res.setHeader('X-Student-Name', student.name || '');
+    res.setHeader('X-Student-Name', encodeURIComponent(student.name || ''));
+    res.setHeader('X-Student-Number', encodeURIComponent(student.studentNumber || ''));
     res.setHeader('X-Page-Labels', JSON.stringify(student.pageLabels));
+    res.setHeader('X-Page-Regions', JSON.stringify(student.pageRegions || {}));
     
     // Stream the file directly instead of loading into memory
     const fileBuffer = await fs.readFile(student.originalPdfPath);
@@ -284,18 +625,56 @@ app.get('/api/student/:id', async (req, res) => {
 });
 
 // Label endpoint - receives labeling data for a student and processes asynchronously
-app.post('/api/label', async (req, res) => {
+app.post('/api/sessions/:sid/label', async (req, res) => {
+  const session: SessionData = res.locals.session;
+  if (!beginChange(session.id)) {
+    return res.status(409).json({ error: FINALIZING_ERROR });
+  }
+
   try {
-    const { studentId, studentName, pageLabels } = req.body;
+    const { studentId, studentName } = req.body;
+    if (typeof studentName !== 'string') {
+      return res.status(400).json({ error: 'Student name must be text' });
+    }
+    const studentNumber = typeof req.body.studentNumber === 'string' ? req.body.studentNumber.trim() : '';
+    if (studentNumber.length > 50) {
+      return res.status(400).json({ error: 'Student number must be at most 50 characters' });
+    }
     
-    const student = sessionData.students.find(s => s.id === studentId);
+    const student = session.students.find(s => s.id === studentId);
     if (!student) {
       return res.status(404).json({ error: 'Student not found' });
     }
 
+    const pageLabels = normalizePageLabels(req.body.pageLabels);
+    if (typeof pageLabels === 'string') {
+      return res.status(400).json({ error: pageLabels });
+    }
+    const unknownProblems = undefinedLabels(session, pageLabels);
+    if (unknownProblems.length > 0) {
+      return res.status(400).json({ error: `Not part of the exam definition: problem ${sortProblemIds(unknownProblems).join(', ')}` });
+    }
+    const pageRegions = normalizePageRegions(req.body.pageRegions, pageLabels);
+    if (typeof pageRegions === 'string') {
+      return res.status(400).json({ error: pageRegions });
+    }
+
     // Update student data immediately
     student.name = studentName;
+    student.studentNumber = studentNumber || undefined;
+    // A graded PDF can keep its layout while a region changed - then its pages no longer match
+    for (const problemId of changedRegionProblems(student.pageRegions, pageRegions)) {
+      await removeGradedPdf(session, problemId);
+    }
     student.pageLabels = pageLabels;
+    student.pageRegions = pageRegions;
+    // Problem PDFs made before this change are outdated - they're rebuilt on the next finalize.
+    // The layout stays, so problems this student didn't change keep their order and graded PDFs.
+    if (Object.keys(session.finalPdfPaths).length > 0) {
+      console.log(`Student ${studentId} was relabeled - discarding the problem PDFs of session ${session.id}`);
+      await discardProblemPdfs(session);
+    }
+    persistSession(session);
 
     // Return immediately to allow user to proceed to next student
     res.json({ 
@@ -305,7 +684,7 @@ app.post('/api/label', async (req, res) => {
     });
 
     // Start background processing (don't await - let it run asynchronously)
-    processStudentInBackground(studentId, studentName, pageLabels)
+    processStudentInBackground(session, studentId, studentName, pageLabels, pageRegions)
       .catch(error => {
         console.error(`Failed to start background processing for student ${studentId}:`, error);
       });
@@ -313,79 +692,670 @@ app.post('/api/label', async (req, res) => {
   } catch (error) {
     console.error('Label error:', error);
     res.status(500).json({ error: 'Failed to process labels' });
+  } finally {
+    endChange(session.id);
+  }
+});
+
+// Get the exam definition (problem list) of a session
+app.get('/api/sessions/:sid/exam', (req, res) => {
+  const session: SessionData = res.locals.session;
+  res.json({
+    problems: session.examProblems.map(p => ({ ...p, maxPoints: session.maxPoints[p.id] ?? null }))
+  });
+});
+
+// Replace the exam definition - problems that are already used on labeled pages can't be removed
+app.put('/api/sessions/:sid/exam', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const definition = parseExamDefinition(req.body.problems);
+    if (typeof definition === 'string') {
+      return res.status(400).json({ error: definition });
+    }
+
+    const definedIds = new Set(definition.problems.map(p => p.id));
+    const removedInUse = Array.from(usedProblemIds(session.students)).filter(id => !definedIds.has(id));
+    if (removedInUse.length > 0) {
+      return res.status(400).json({ error: `Problem ${sortProblemIds(removedInUse).join(', ')} is already used on labeled pages - relabel those pages first` });
+    }
+
+    session.examProblems = definition.problems;
+    session.maxPoints = definition.maxPoints;
+    persistSession(session);
+
+    console.log(`Exam definition of session ${session.id} set to ${session.examProblems.length} problems`);
+    res.json({ success: true, problems: session.examProblems.map(p => ({ ...p, maxPoints: session.maxPoints[p.id] ?? null })) });
+  } catch (error) {
+    console.error('Update exam definition error:', error);
+    res.status(500).json({ error: 'Failed to update exam definition' });
+  }
+});
+
+// Class roster with the students each entry was matched to, duplicate names and missing submissions
+app.get('/api/sessions/:sid/roster', (req, res) => {
+  const session: SessionData = res.locals.session;
+  res.json(rosterStatus(session));
+});
+
+// Import a roster CSV (name or first/last name, optional student number and email) and pre-fill
+// the names of students that aren't labeled yet from their file names
+app.put('/api/sessions/:sid/roster', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    if (typeof req.body.csv !== 'string') {
+      return res.status(400).json({ error: 'Roster CSV is required' });
+    }
+    const roster = parseRoster(req.body.csv);
+    if (typeof roster === 'string') {
+      return res.status(400).json({ error: roster });
+    }
+
+    session.roster = roster;
+    const renamed = applyRoster(session);
+    persistSession(session);
+    console.log(`Imported roster of ${roster.length} students for session ${session.id}, ${renamed} names filled in`);
+
+    res.json({ success: true, renamed, ...rosterStatus(session) });
+  } catch (error) {
+    console.error('Roster import error:', error);
+    res.status(500).json({ error: 'Failed to import roster' });
+  }
+});
+
+app.delete('/api/sessions/:sid/roster', (req, res) => {
+  const session: SessionData = res.locals.session;
+  session.roster = [];
+  persistSession(session);
+  res.json({ success: true, ...rosterStatus(session) });
+});
+
+// Get the watermark layout settings of a session
+app.get('/api/sessions/:sid/watermark', (req, res) => {
+  const session: SessionData = res.locals.session;
+  res.json({ watermark: session.watermark, anonymize: session.anonymize });
+});
+
+// Update the watermark layout settings of a session
+app.put('/api/sessions/:sid/watermark', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const watermark = parseWatermarkSettings(req.body.watermark, session.watermark);
+    if (typeof watermark === 'string') {
+      return res.status(400).json({ error: watermark });
+    }
+
+    session.watermark = watermark;
+    persistSession(session);
+    res.json({ success: true, watermark });
+  } catch (error) {
+    console.error('Update watermark error:', error);
+    res.status(500).json({ error: 'Failed to update watermark settings' });
+  }
+});
+
+// Turn blind grading on or off for a session
+app.put('/api/sessions/:sid/anonymization', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    if (typeof req.body.enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be true or false' });
+    }
+
+    session.anonymize = req.body.enabled;
+    if (session.anonymize) {
+      assignAnonymousCodes(session.students);
+      // Name or number order would give away who is who
+      session.studentOrder = 'random';
+    }
+    persistSession(session);
+    res.json({ success: true, anonymize: session.anonymize });
+  } catch (error) {
+    console.error('Update anonymization error:', error);
+    res.status(500).json({ error: 'Failed to update blind grading mode' });
+  }
+});
+
+// Download the key that maps anonymous codes back to student names
+app.get('/api/sessions/:sid/anonymization-key', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    if (!session.anonymize) {
+      return res.status(400).json({ error: 'Blind grading is not enabled for this session' });
+    }
+    if (assignAnonymousCodes(session.students)) {
+      persistSession(session);
+    }
+
+    const rows = [
+      ['Code', 'Student Name', 'Student Nr'],
+      ...session.students.map(s => [s.anonymousCode, s.name, s.studentNumber || ''])
+    ];
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="Anonymization_Key.csv"');
+    res.send(toCsv(rows));
+  } catch (error) {
+    console.error('Anonymization key error:', error);
+    res.status(500).json({ error: 'Failed to create anonymization key' });
   }
 });
 
 // Finalize endpoint - creates final PDFs grouped by problem
-app.post('/api/finalize', async (req, res) => {
+app.post('/api/sessions/:sid/finalize', async (req, res) => {
+  const session: SessionData = res.locals.session;
+  if (finalizingSessions.has(session.id)) {
+    return res.status(409).json({ error: FINALIZING_ERROR });
+  }
+  if (changingSessions.has(session.id)) {
+    return res.status(409).json({ error: 'Students are being uploaded or relabeled - try again when that is done' });
+  }
+  finalizingSessions.add(session.id);
+
   try {
-    const problemNumbers = Object.keys(sessionData.problemPages).map(Number);
-    
-    for (const problemNumber of problemNumbers) {
-      const pages = sessionData.problemPages[problemNumber];
-      
-      // Create a new PDF document for this problem
-      const finalPdf = await PDFDocument.create();
-      
-      // Add all pages for this problem
-      for (const page of pages) {
-        const pagePdf = await PDFDocument.load(page.pdfData);
-        const [copiedPage] = await finalPdf.copyPages(pagePdf, [0]);
-        finalPdf.addPage(copiedPage);
+    const processingStudents = session.students.filter(s => s.processingStatus === 'processing').length;
+    if (processingStudents > 0) {
+      return res.status(409).json({ error: `${processingStudents} students are still being processed - try again when they are done` });
+    }
+
+    // Pages of students whose processing failed would be missing - only left out when that's confirmed
+    const failedStudents = session.students.filter(s => isLabeled(s) && s.processingStatus === 'error');
+    if (failedStudents.length > 0 && req.body?.skipFailedStudents !== true) {
+      return res.status(409).json({
+        error: `Processing failed for ${failedStudents.length} students - retry or relabel them first`,
+        failedStudents: failedStudents.map(s => ({ id: s.id, name: s.name, processingError: s.processingError }))
+      });
+    }
+    const skipped = new Set(failedStudents.map(s => s.id));
+    const includedPages: { [problemId: string]: ProblemPage[] } = {};
+    for (const [problemId, pages] of Object.entries(session.problemPages)) {
+      const kept = pages.filter(page => !skipped.has(page.studentId));
+      if (kept.length > 0) {
+        includedPages[problemId] = kept;
+      }
+    }
+
+    // Settings can be sent along with the finalize request - all of them are checked before any is saved
+    const body = req.body || {};
+    const watermark = body.watermark ? parseWatermarkSettings(body.watermark, session.watermark) : session.watermark;
+    if (typeof watermark === 'string') {
+      return res.status(400).json({ error: watermark });
+    }
+    for (const option of ['placeholderPages', 'coverPage']) {
+      if (body[option] !== undefined && typeof body[option] !== 'boolean') {
+        return res.status(400).json({ error: `${option} must be true or false` });
+      }
+    }
+    const orderError = parseStudentOrder(body);
+    if (orderError) {
+      return res.status(400).json({ error: orderError });
+    }
+
+    // Changing the ordering reorders every problem PDF
+    const studentOrder = body.studentOrder ?? session.studentOrder;
+    const orderSeed = body.orderSeed?.trim() ?? session.orderSeed;
+    const orderChanged = studentOrder !== session.studentOrder || (studentOrder === 'random' && orderSeed !== session.orderSeed);
+    session.watermark = watermark;
+    session.placeholderPages = body.placeholderPages ?? session.placeholderPages;
+    session.coverPage = body.coverPage ?? session.coverPage;
+    session.studentOrder = studentOrder;
+    session.orderSeed = orderSeed;
+    persistSession(session);
+    const ranks = studentRanks(session.students, session.studentOrder, session.orderSeed);
+
+    // Blind grading stamps a code instead of the name
+    if (session.anonymize && assignAnonymousCodes(session.students)) {
+      persistSession(session);
+    }
+    const watermarkSettings = session.anonymize
+      ? { ...session.watermark, template: ANONYMOUS_WATERMARK_TEMPLATE }
+      : session.watermark;
+
+    // With placeholder pages every problem of the exam definition gets a PDF, even if nobody answered it
+    const problemIds = session.placeholderPages
+      ? sortProblemIds(new Set([...Object.keys(includedPages), ...session.examProblems.map(p => p.id)]))
+      : sortProblemIds(Object.keys(includedPages));
+    const placeholders = session.placeholderPages
+      ? createPlaceholderPages(session.students.filter(s => isLabeled(s) && !skipped.has(s.id)), includedPages, problemIds)
+      : {};
+
+    // Problems that no longer have any pages also lose their layout, problem PDF and graded PDF
+    for (const problemId of Object.keys(session.finalLayout)) {
+      if (!problemIds.includes(problemId)) {
+        delete session.finalLayout[problemId];
+        delete session.finalCoverPages[problemId];
+        await removeGradedPdf(session, problemId);
+      }
+    }
+    for (const [problemId, filePath] of Object.entries(session.finalPdfPaths)) {
+      if (!problemIds.includes(problemId)) {
+        delete session.finalPdfPaths[problemId];
+        await removeStoredFiles([filePath]);
+      }
+    }
+
+    // The problem PDFs are built on the processing pool, so the server keeps answering while they are created.
+    // Each worker writes its PDF to disk and holds only that one in memory - downloads stream it from disk.
+    const pdfSession = {
+      uploadDir: session.uploadDir,
+      students: session.students,
+      anonymize: session.anonymize,
+      coverPage: session.coverPage,
+      examProblems: session.examProblems
+    };
+    const students = session.students;
+    let completed = 0;
+    publish(session.id, 'finalize', { problemId: null, completed, total: problemIds.length });
+    const results = await Promise.allSettled(problemIds.map(async problemId => {
+      const problemPages = [...(includedPages[problemId] || []), ...(placeholders[problemId] || [])];
+
+      // Keep the page order of the previous finalize if neither the pages nor the ordering changed,
+      // so graded PDFs still line up (e.g. after a student was renamed while ordering by name)
+      const previousLayout = session.finalLayout[problemId];
+      const pages = (!orderChanged && orderLikeLayout(problemPages, previousLayout)) || sortByStudent(problemPages, ranks);
+
+      const layout = toLayout(pages);
+      const result = await enqueueProblemPdf(session.id, { problemId, session: pdfSession, pages, watermarkSettings });
+      // The PDF belongs to students that were replaced in the meantime - it must not end up in the new session
+      if (session.students !== students) {
+        if (result) {
+          await removeStoredFiles([result.filePath]);
+        }
+        return;
       }
-      
-      const finalPdfBytes = await finalPdf.save();
-      sessionData.finalPdfs[problemNumber] = Buffer.from(finalPdfBytes);
+      if (!result) {
+        throw new Error(`Creating the PDF of problem ${problemId} was cancelled`);
+      }
+      if (!sameLayout(previousLayout, layout) || (session.finalCoverPages[problemId] || 0) !== result.coverPages) {
+        await removeGradedPdf(session, problemId);
+      }
+      session.finalLayout[problemId] = layout;
+      session.finalCoverPages[problemId] = result.coverPages;
+      session.finalPdfPaths[problemId] = result.filePath;
+      publish(session.id, 'finalize', { problemId, completed: ++completed, total: problemIds.length });
+    }));
+    // Every job has finished before the first failure is reported, so none is still writing once finalize is done
+    if (session.students !== students) {
+      publishFailure(session.id, 'The students were replaced while the problem PDFs were created');
+      return res.status(409).json({ error: 'The students were replaced while the problem PDFs were created - create them again' });
+    }
+    persistSession(session);
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
     }
 
     res.json({
       success: true,
-      problems: problemNumbers,
-      message: `Created ${problemNumbers.length} problem PDFs`
+      problems: problemIds,
+      anonymized: session.anonymize,
+      skippedStudents: skipped.size,
+      message: skipped.size > 0
+        ? `Created ${problemIds.length} problem PDFs without the ${skipped.size} students whose processing failed`
+        : `Created ${problemIds.length} problem PDFs`
     });
   } catch (error) {
     console.error('Finalize error:', error);
+    publishFailure(session.id, 'Failed to create final PDFs');
     res.status(500).json({ error: 'Failed to create final PDFs' });
+  } finally {
+    finalizingSessions.delete(session.id);
   }
 });
 
-// Download endpoint
-app.get('/api/download/:problemId', (req, res) => {
+// Download endpoint - streams the problem PDF from disk, so its size doesn't matter for memory
+app.get('/api/sessions/:sid/download/:problemId', async (req, res) => {
   try {
-    const problemId = parseInt(req.params.problemId);
-    const pdfData = sessionData.finalPdfs[problemId];
+    const session: SessionData = res.locals.session;
+    const problemId = normalizeProblemId(req.params.problemId);
+    const filePath = problemId ? session.finalPdfPaths[problemId] : undefined;
     
-    if (!pdfData) {
+    if (!filePath) {
       return res.status(404).json({ error: 'Problem PDF not found' });
     }
 
+    const stats = await fs.stat(filePath);
     res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Length', stats.size.toString());
     res.setHeader('Content-Disposition', `attachment; filename="Problem_${problemId}.pdf"`);
-    res.send(pdfData);
+    createReadStream(filePath)
+      .on('error', (error) => {
+        console.error('Download stream error:', error);
+        res.destroy(error);
+      })
+      .pipe(res);
   } catch (error) {
     console.error('Download error:', error);
     res.status(500).json({ error: 'Failed to download PDF' });
   }
 });
 
+// All problem PDFs as one zip, optionally with a manifest of which student pages are in each file
+app.get('/api/sessions/:sid/download-all', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const problemIds = sortProblemIds(Object.keys(session.finalPdfPaths));
+    if (problemIds.length === 0) {
+      return res.status(404).json({ error: 'No problem PDFs - finalize the session first' });
+    }
+
+    // The problem PDFs are read from disk while the zip is streamed out
+    const zip = new JSZip();
+    for (const problemId of problemIds) {
+      zip.file(`Problem_${problemId}.pdf`, createReadStream(session.finalPdfPaths[problemId]));
+    }
+
+    if (req.query.manifest === 'true') {
+      // Blind grading keeps the names out of the zip - the key file maps codes to students
+      const rows: (string | number)[][] = [['File', 'File Page', 'Student', 'Student Nr', 'Original Page']];
+      for (const problemId of problemIds) {
+        const coverPages = session.finalCoverPages[problemId] || 0;
+        (session.finalLayout[problemId] || []).forEach((ref, index) => {
+          const student = session.students.find(s => s.id === ref.studentId);
+          const filePage = coverPages + index + 1;
+          const originalPage = ref.pageNumber === PLACEHOLDER_PAGE_NUMBER ? 'No answer' : ref.pageNumber;
+          rows.push(session.anonymize
+            ? [`Problem_${problemId}.pdf`, filePage, student?.anonymousCode || '', '', originalPage]
+            : [`Problem_${problemId}.pdf`, filePage, student?.name || '', student?.studentNumber || '', originalPage]);
+        });
+      }
+      zip.file('Manifest.csv', toCsv(rows));
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="Problem_PDFs.zip"');
+    zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true })
+      .on('error', (error) => {
+        console.error('Download all stream error:', error);
+        res.destroy(error);
+      })
+      .pipe(res);
+  } catch (error) {
+    console.error('Download all error:', error);
+    res.status(500).json({ error: 'Failed to create problem PDFs zip' });
+  }
+});
+
+// Upload annotated problem PDFs after grading, named like the downloads (Problem_3.pdf)
+app.post('/api/sessions/:sid/graded', upload.array('graded'), async (req, res) => {
+  const session: SessionData = res.locals.session;
+  const files = Array.isArray(req.files) ? req.files : [];
+  const discardFiles = () => Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+
+  try {
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded' });
+    }
+    if (Object.keys(session.finalLayout).length === 0) {
+      await discardFiles();
+      return res.status(400).json({ error: 'Create the problem PDFs before uploading graded ones' });
+    }
+
+    // Check every file against the layout of the last finalize before accepting any of them
+    const errors: string[] = [];
+    const accepted: { problemId: string; filePath: string }[] = [];
+    for (const file of files) {
+      const problemId = problemIdFromFileName(file.originalname);
+      const layout = problemId === null ? undefined : session.finalLayout[problemId];
+      if (problemId === null || !layout) {
+        errors.push(`${file.originalname}: file name does not match any problem (expected e.g. Problem_1.pdf)`);
+        continue;
+      }
+      if (accepted.some(a => a.problemId === problemId)) {
+        errors.push(`${file.originalname}: problem ${problemId} was uploaded twice`);
+        continue;
+      }
+
+      try {
+        const gradedPdf = await PDFDocument.load(await fs.readFile(file.path));
+        if (gradedCoverPages(session, problemId, gradedPdf.getPageCount()) === null) {
+          errors.push(`${file.originalname}: has ${gradedPdf.getPageCount()} pages, but the problem ${problemId} PDF was created with ${expectedGradedPages(session, problemId)}`);
+          continue;
+        }
+      } catch {
+        errors.push(`${file.originalname}: not a readable PDF`);
+        continue;
+      }
+      accepted.push({ problemId, filePath: file.path });
+    }
+
+    if (errors.length > 0) {
+      await discardFiles();
+      return res.status(400).json({ error: 'Some graded PDFs do not match the problem PDFs', details: errors });
+    }
+
+    for (const { problemId, filePath } of accepted) {
+      await removeGradedPdf(session, problemId);
+      session.gradedPdfPaths[problemId] = filePath;
+    }
+    persistSession(session);
+
+    console.log(`Received graded PDFs for problems ${accepted.map(a => a.problemId).join(', ')} in session ${session.id}`);
+    res.json({ success: true, problems: accepted.map(a => a.problemId) });
+  } catch (error) {
+    console.error('Graded upload error:', error);
+    await discardFiles();
+    res.status(500).json({ error: 'Failed to process graded PDFs' });
+  }
+});
+
+// Which graded problem PDFs are in, and which students can be reassembled
+app.get('/api/sessions/:sid/graded', (req, res) => {
+  const session: SessionData = res.locals.session;
+  const problems = sortProblemIds(Object.keys(session.finalLayout)).map(problemId => ({
+    problem: problemId,
+    expectedPages: expectedGradedPages(session, problemId),
+    uploaded: Boolean(session.gradedPdfPaths[problemId])
+  }));
+  const students = session.students
+    .filter(s => problemsForStudent(session, s.id).length > 0)
+    .map(s => ({ id: s.id, name: s.name, ready: isStudentReady(session, s.id) }));
+
+  res.json({
+    problems,
+    students,
+    complete: problems.length > 0 && problems.every(p => p.uploaded)
+  });
+});
+
+// Download one student's graded exam, reassembled in original page order
+app.get('/api/sessions/:sid/graded/student/:id', async (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const studentId = parseInt(req.params.id);
+    const student = session.students.find(s => s.id === studentId);
+
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+    if (!isStudentReady(session, studentId)) {
+      return res.status(400).json({ error: 'Not all graded PDFs for this student have been uploaded' });
+    }
+
+    const pdfData = await buildStudentPdf(session, student, createGradedPdfLoader(session));
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(studentPdfFileName(student))}`);
+    res.send(pdfData);
+  } catch (error) {
+    console.error('Graded student download error:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to reassemble student PDF' });
+  }
+});
+
+// Download every student's graded exam as one zip
+app.get('/api/sessions/:sid/graded/zip', async (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const missingProblems = sortProblemIds(Object.keys(session.finalLayout)).filter(problemId => !session.gradedPdfPaths[problemId]);
+    if (Object.keys(session.finalLayout).length === 0 || missingProblems.length > 0) {
+      return res.status(400).json({ error: `Graded PDFs missing for problems: ${missingProblems.join(', ') || 'all'}` });
+    }
+
+    const zip = new JSZip();
+    const loadGradedPdf = createGradedPdfLoader(session);
+    for (const student of session.students) {
+      if (problemsForStudent(session, student.id).length === 0) continue;
+      zip.file(studentPdfFileName(student), await buildStudentPdf(session, student, loadGradedPdf));
+    }
+
+    const zipData = await zip.generateAsync({ type: 'nodebuffer' });
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="Graded_Exams.zip"');
+    res.send(zipData);
+  } catch (error) {
+    console.error('Graded zip error:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create graded exams zip' });
+  }
+});
+
+// Scores and max points for the grading view
+app.get('/api/sessions/:sid/grades', (req, res) => {
+  const session: SessionData = res.locals.session;
+  res.json({
+    problems: sessionProblems(session).map(problem => ({
+      problem,
+      title: session.examProblems.find(p => p.id === problem)?.title || '',
+      maxPoints: session.maxPoints[problem] ?? null
+    })),
+    students: session.students.map(s => ({ id: s.id, name: s.name, studentNumber: s.studentNumber || '', scores: s.scores || {} }))
+  });
+});
+
+// Set (or clear with null) the max points of a problem
+app.put('/api/sessions/:sid/grades/max-points', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const problem = normalizeProblemId(req.body.problem);
+    if (!problem) {
+      return res.status(400).json({ error: 'Invalid problem ID' });
+    }
+    const maxPoints = parsePoints(req.body.maxPoints, 'Max points');
+    if (typeof maxPoints === 'string') {
+      return res.status(400).json({ error: maxPoints });
+    }
+
+    if (maxPoints === null) {
+      delete session.maxPoints[problem];
+    } else {
+      session.maxPoints[problem] = maxPoints;
+    }
+    persistSession(session);
+    res.json({ success: true, problem, maxPoints });
+  } catch (error) {
+    console.error('Update max points error:', error);
+    res.status(500).json({ error: 'Failed to update max points' });
+  }
+});
+
+// Set (or clear with null) one student's score for a problem
+app.put('/api/sessions/:sid/grades/:id', (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const studentId = parseInt(req.params.id);
+    const student = session.students.find(s => s.id === studentId);
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const problem = normalizeProblemId(req.body.problem);
+    if (!problem || !sessionProblems(session).includes(problem)) {
+      return res.status(400).json({ error: `Problem ${req.body.problem} does not exist in this session` });
+    }
+    const score = parsePoints(req.body.score, 'Score');
+    if (typeof score === 'string') {
+      return res.status(400).json({ error: score });
+    }
+    const maxPoints = session.maxPoints[problem];
+    if (score !== null && maxPoints !== undefined && score > maxPoints) {
+      return res.status(400).json({ error: `Score ${score} is more than the ${maxPoints} points problem ${problem} is worth` });
+    }
+
+    student.scores = student.scores || {};
+    if (score === null) {
+      delete student.scores[problem];
+    } else {
+      student.scores[problem] = score;
+    }
+    persistSession(session);
+    res.json({ success: true, studentId, problem, score });
+  } catch (error) {
+    console.error('Update score error:', error);
+    res.status(500).json({ error: 'Failed to update score' });
+  }
+});
+
+// Export the gradebook with a column per problem and totals (?format=csv or xlsx)
+app.get('/api/sessions/:sid/gradebook', async (req, res) => {
+  try {
+    const session: SessionData = res.locals.session;
+    const rows = gradebookRows(session);
+
+    if (req.query.format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', 'attachment; filename="Gradebook.xlsx"');
+      res.send(await toXlsx(rows, session.name));
+    } else {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="Gradebook.csv"');
+      res.send(toCsv(rows));
+    }
+  } catch (error) {
+    console.error('Gradebook export error:', error);
+    res.status(500).json({ error: 'Failed to export gradebook' });
+  }
+});
+
+// Every student with their labeling and processing state, for jumping between students while sorting
+app.get('/api/sessions/:sid/students', (req, res) => {
+  const session: SessionData = res.locals.session;
+  res.json({
+    students: session.students.map(s => ({
+      id: s.id,
+      name: s.name,
+      labeled: isLabeled(s),
+      processingStatus: s.processingStatus
+    }))
+  });
+});
+
+// Students against problems with the labeled page numbers, for a last check before finalizing
+app.get('/api/sessions/:sid/review', (req, res) => {
+  const session: SessionData = res.locals.session;
+  res.json({
+    ...reviewMatrix(session),
+    anonymize: session.anonymize,
+    placeholderPages: session.placeholderPages,
+    coverPage: session.coverPage,
+    studentOrder: session.studentOrder,
+    orderSeed: session.orderSeed
+  });
+});
+
 // Get session status with performance metrics and processing status
-app.get('/api/status', (req, res) => {
-  const totalStudents = sessionData.students.length;
-  const labeledStudents = sessionData.students.filter(s => s.name && Object.keys(s.pageLabels).length > 0).length;
-  const processingStudents = sessionData.students.filter(s => s.processingStatus === 'processing').length;
-  const completedStudents = sessionData.students.filter(s => s.processingStatus === 'completed').length;
-  const errorStudents = sessionData.students.filter(s => s.processingStatus === 'error').length;
-  const problems = Object.keys(sessionData.problemPages).map(Number);
+app.get('/api/sessions/:sid/status', (req, res) => {
+  const session: SessionData = res.locals.session;
+  const totalStudents = session.students.length;
+  const labeledStudents = session.students.filter(isLabeled).length;
+  const firstUnlabeledStudent = session.students.find(s => !isLabeled(s));
+  const processingStudents = session.students.filter(s => s.processingStatus === 'processing').length;
+  const completedStudents = session.students.filter(s => s.processingStatus === 'completed').length;
+  const errorStudents = session.students.filter(s => s.processingStatus === 'error').length;
+  const problems = sortProblemIds(Object.keys(session.problemPages));
   const memUsage = process.memoryUsage();
   
   res.json({
+    sessionId: session.id,
+    sessionName: session.name,
+    anonymize: session.anonymize,
+    examProblems: session.examProblems.length,
+    hasBatch: Boolean(session.batchPdfPath),
     totalStudents,
     labeledStudents,
     processingStudents,
     completedStudents,
     errorStudents,
+    firstUnlabeledStudentId: firstUnlabeledStudent ? firstUnlabeledStudent.id : null,
     problems,
-    isFinalized: Object.keys(sessionData.finalPdfs).length > 0,
+    isFinalized: Object.keys(session.finalPdfPaths).length > 0,
     allProcessingComplete: labeledStudents > 0 && processingStudents === 0 && errorStudents === 0,
     performance: {
       memoryUsage: {
@@ -393,17 +1363,24 @@ app.get('/api/status', (req, res) => {
         heapUsed: Math.round(memUsage.heapUsed / 1024 / 1024), // MB
         heapTotal: Math.round(memUsage.heapTotal / 1024 / 1024) // MB
       },
-      tempFilesCount: sessionData.students.length,
-      processedPagesCount: Object.values(sessionData.problemPages).reduce((sum, pages) => sum + pages.length, 0)
-    }
+      tempFilesCount: session.students.length,
+      processedPagesCount: Object.values(session.problemPages).reduce((sum, pages) => sum + pages.length, 0)
+    },
+    queue: processingQueueStatus(session.id)
   });
 });
 
+// Live student processing and finalize progress as Server-Sent Events
+app.get('/api/sessions/:sid/events', (req, res) => {
+  subscribe(res.locals.session, req, res);
+});
+
 // Get processing status for a specific student
-app.get('/api/student/:id/status', (req, res) => {
+app.get('/api/sessions/:sid/student/:id/status', (req, res) => {
   try {
+    const session: SessionData = res.locals.session;
     const studentId = parseInt(req.params.id);
-    const student = sessionData.students.find(s => s.id === studentId);
+    const student = session.students.find(s => s.id === studentId);
     
     if (!student) {
       return res.status(404).json({ error: 'Student not found' });
@@ -412,8 +1389,10 @@ app.get('/api/student/:id/status', (req, res) => {
     res.json({
       studentId: student.id,
       studentName: student.name,
+      studentNumber: student.studentNumber || '',
       processingStatus: student.processingStatus,
       processingError: student.processingError,
+      job: processingJob(session.id, student.id),
       hasLabels: Object.keys(student.pageLabels).length > 0
     });
   } catch (error) {
@@ -422,6 +1401,56 @@ app.get('/api/student/:id/status', (req, res) => {
   }
 });
 
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-}); 
\ No newline at end of file
+// Run a student's failed background processing again with their current labels
+app.post('/api/sessions/:sid/student/:id/retry', async (req, res) => {
+  const session: SessionData = res.locals.session;
+  if (!beginChange(session.id)) {
+    return res.status(409).json({ error: FINALIZING_ERROR });
+  }
+
+  try {
+    const studentId = parseInt(req.params.id);
+    const student = session.students.find(s => s.id === studentId);
+
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+    if (student.processingStatus !== 'error') {
+      return res.status(400).json({ error: 'Only students whose processing failed can be retried' });
+    }
+    if (!isLabeled(student)) {
+      return res.status(400).json({ error: 'This student has no labels yet - label them instead' });
+    }
+    try {
+      await fs.access(student.originalPdfPath);
+    } catch {
+      return res.status(409).json({ error: 'The original PDF of this student no longer exists on disk' });
+    }
+
+    // The student's pages change once processing succeeds
+    if (Object.keys(session.finalPdfPaths).length > 0) {
+      await discardProblemPdfs(session);
+    }
+    processStudentInBackground(session, student.id, student.name, student.pageLabels, student.pageRegions)
+      .catch(error => {
+        console.error(`Failed to retry background processing for student ${studentId}:`, error);
+      });
+
+    res.json({ success: true, processingStatus: student.processingStatus });
+  } catch (error) {
+    console.error('Retry processing error:', error);
+    res.status(500).json({ error: 'Failed to retry processing' });
+  } finally {
+    endChange(session.id);
+  }
+});
+
+restoreSessions()
+  .catch(error => {
+    console.error('Failed to restore persisted sessions:', error);
+  })
+  .finally(() => {
+    app.listen(PORT, () => {
+      console.log(`Server running on port ${PORT}`);
+    });
+  }); 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { SessionData, StudentData } from './types';
+
+// Live progress of a session pushed to its open pages as Server-Sent Events
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_MS = 25000;
+
+const subscribers = new Map<string, Set<Response>>();
+
+function studentProgress(student: StudentData) {
+  return {
+    id: student.id,
+    name: student.name,
+    processingStatus: student.processingStatus,
+    processingError: student.processingError
+  };
+}
+
+// Send an event to every page that has the session open
+export function publish(sessionId: string, event: string, data: unknown) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const res of subscribers.get(sessionId) || []) {
+    res.write(message);
+  }
+}
+
+// Every student's processing state, e.g. right after connecting or once the students were replaced
+export function publishStudents(session: SessionData) {
+  publish(session.id, 'students', { students: session.students.map(studentProgress) });
+}
+
+export function publishStudent(session: SessionData, student: StudentData) {
+  publish(session.id, 'student', studentProgress(student));
+}
+
+// Not called "error" - that name is taken by EventSource's own connection errors
+export function publishFailure(sessionId: string, message: string, studentId?: number) {
+  publish(sessionId, 'failure', { message, studentId });
+}
+
+// Keep the response open as an event stream until the page goes away
+export function subscribe(session: SessionData, req: Request, res: Response) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const sessionSubscribers = subscribers.get(session.id) || new Set<Response>();
+  subscribers.set(session.id, sessionSubscribers);
+  sessionSubscribers.add(res);
+  res.write(`event: students\ndata: ${JSON.stringify({ students: session.students.map(studentProgress) })}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    sessionSubscribers.delete(res);
+    if (sessionSubscribers.size === 0 && subscribers.get(session.id) === sessionSubscribers) {
+      subscribers.delete(session.id);
+    }
+  });
+}
+
+// End the streams of a deleted session
+export function closeSessionEvents(sessionId: string) {
+  for (const res of subscribers.get(sessionId) || []) {
+    res.end();
+  }
+  subscribers.delete(sessionId);
+}
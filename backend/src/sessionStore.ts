@@ -0,0 +1,98 @@
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import { PersistedSession } from './types';
+
+// Session state is kept as JSON next to the uploaded PDFs so a restart can pick up where it left off
+export const DATA_DIR = process.env.EXAM_GRADER_DATA_DIR || path.join(os.tmpdir(), 'exam-grader-data');
+const SESSIONS_DIR = path.join(DATA_DIR, 'sessions');
+
+interface SessionFile {
+  version: 2;
+  savedAt: string;
+  session: PersistedSession;
+}
+
+// Writes are chained per session so that two quick saves never race on the rename
+const pendingWrites: { [sessionId: string]: Promise<void> } = {};
+
+function sessionFilePath(sessionId: string) {
+  return path.join(SESSIONS_DIR, `${sessionId}.json`);
+}
+
+export function saveSession(session: PersistedSession): Promise<void> {
+  const snapshot: SessionFile = {
+    version: 2,
+    savedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      name: session.name,
+      createdAt: session.createdAt,
+      uploadDir: session.uploadDir,
+      batchPdfPath: session.batchPdfPath,
+      watermark: session.watermark,
+      anonymize: session.anonymize,
+      placeholderPages: session.placeholderPages,
+      studentOrder: session.studentOrder,
+      orderSeed: session.orderSeed,
+      examProblems: session.examProblems,
+      roster: session.roster,
+      students: session.students,
+      finalLayout: session.finalLayout,
+      finalCoverPages: session.finalCoverPages,
+      coverPage: session.coverPage,
+      gradedPdfPaths: session.gradedPdfPaths,
+      maxPoints: session.maxPoints
+    }
+  };
+  // Serialize now so later mutations don't leak into this snapshot
+  const json = JSON.stringify(snapshot, null, 2);
+  const sessionFile = sessionFilePath(session.id);
+
+  const write = (pendingWrites[session.id] || Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(SESSIONS_DIR, { recursive: true });
+      // Write to a temp file first and rename, so a crash mid-write never leaves a truncated session
+      const tempFile = `${sessionFile}.tmp`;
+      await fs.writeFile(tempFile, json, 'utf8');
+      await fs.rename(tempFile, sessionFile);
+    });
+  pendingWrites[session.id] = write;
+
+  return write;
+}
+
+export async function loadSessions(): Promise<PersistedSession[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(SESSIONS_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const sessions: PersistedSession[] = [];
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    const sessionFile = path.join(SESSIONS_DIR, file);
+    try {
+      const snapshot = JSON.parse(await fs.readFile(sessionFile, 'utf8')) as SessionFile;
+      if (snapshot.version !== 2 || !snapshot.session || !Array.isArray(snapshot.session.students)) {
+        console.warn(`Ignoring session file with unknown format: ${sessionFile}`);
+        continue;
+      }
+      sessions.push(snapshot.session);
+    } catch (error) {
+      console.warn(`Could not read session file: ${sessionFile}`, error);
+    }
+  }
+  return sessions;
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await (pendingWrites[sessionId] || Promise.resolve()).catch(() => undefined);
+  delete pendingWrites[sessionId];
+  await fs.rm(sessionFilePath(sessionId), { force: true });
+}
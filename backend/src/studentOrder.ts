@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { ProblemPage, StudentData, StudentOrder } from './types';
+
+export const STUDENT_ORDERS: StudentOrder[] = ['upload', 'name', 'number', 'random'];
+
+const MAX_SEED_LENGTH = 100;
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export function createOrderSeed() {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+// Validate the ordering options of a finalize request - returns an error message for bad input
+export function parseStudentOrder(input: { studentOrder?: unknown; orderSeed?: unknown }) {
+  if (input.studentOrder !== undefined && !STUDENT_ORDERS.includes(input.studentOrder as StudentOrder)) {
+    return `Student order must be one of: ${STUDENT_ORDERS.join(', ')}`;
+  }
+  if (input.orderSeed !== undefined && (typeof input.orderSeed !== 'string' || !input.orderSeed.trim() || input.orderSeed.length > MAX_SEED_LENGTH)) {
+    return `Order seed must be a non-empty string of at most ${MAX_SEED_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Position of every student in the problem PDFs. The same seed always gives the same random order,
+// so every problem PDF lists the students in the same sequence.
+export function studentRanks(students: StudentData[], order: StudentOrder, seed: string) {
+  const randomKey = (student: StudentData) => crypto.createHash('sha256').update(`${seed}:${student.id}`).digest('hex');
+  const sorted = [...students].sort((a, b) => {
+    switch (order) {
+      case 'name':
+        return compareText(a.name, b.name) || a.id - b.id;
+      case 'number':
+        // Students without a number go last
+        if (!a.studentNumber || !b.studentNumber) {
+          return Number(!a.studentNumber) - Number(!b.studentNumber) || a.id - b.id;
+        }
+        return compareText(a.studentNumber, b.studentNumber) || a.id - b.id;
+      case 'random':
+        return randomKey(a).localeCompare(randomKey(b));
+      default:
+        return a.id - b.id;
+    }
+  });
+  return new Map(sorted.map((student, index) => [student.id, index]));
+}
+
+// Put a problem's pages in student order, keeping each student's pages together and in page order
+export function sortByStudent(pages: ProblemPage[], ranks: Map<number, number>) {
+  const rank = (page: ProblemPage) => ranks.get(page.studentId) ?? Number.MAX_SAFE_INTEGER;
+  return [...pages].sort((a, b) => rank(a) - rank(b) || a.studentId - b.studentId);
+}
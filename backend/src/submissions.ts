@@ -0,0 +1,261 @@
+import fs from 'fs/promises';
+import path from 'path';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { PNG } from 'pngjs';
+import UTIF from 'utif2';
+import { PAGE_HEIGHT, PAGE_WIDTH } from './pageSize';
+
+// Uploads can be PDFs, phone photos or scans (JPG/PNG/TIFF) and zip archives of those.
+// Everything ends up as one PDF per student so labeling works the same for all of them.
+
+type FileKind = 'pdf' | 'jpg' | 'png' | 'tiff' | 'zip';
+
+interface SubmissionFile {
+  relativePath: string; // Path inside the upload (folder upload or zip), used to group files per student
+  kind: FileKind;
+  load: () => Promise<Buffer>; // Contents are only read when converting, to keep big uploads out of memory
+  uploadedPath?: string; // Set for files uploaded directly rather than from a zip
+}
+
+export interface UploadedFile {
+  path: string; // Where multer stored it
+  originalname: string; // May include the folder path of a folder upload
+}
+
+// One student's PDF and the file or folder it came from (names often carry the student's name)
+export interface Submission {
+  pdfPath: string;
+  sourceName: string;
+}
+
+export interface ExpandedUpload {
+  submissions: Submission[]; // One per student, in upload order
+  skipped: string[]; // Files that aren't PDFs, images or zips
+}
+
+interface StudentGroup {
+  sourceName: string;
+  files: SubmissionFile[];
+}
+
+// Sniff the first bytes instead of trusting the extension - LMS exports and phones get those wrong
+function fileKind(data: Buffer): FileKind | null {
+  if (data.subarray(0, 4).toString('latin1') === '%PDF') return 'pdf';
+  if (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) return 'zip';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  const tiffHeader = data.subarray(0, 4).toString('latin1');
+  if (tiffHeader === 'II*\u0000' || tiffHeader === 'MM\u0000*') return 'tiff';
+  return null;
+}
+
+async function readHeader(filePath: string) {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(8);
+    await handle.read(header, 0, 8, 0);
+    return header;
+  } finally {
+    await handle.close();
+  }
+}
+
+// Junk that zips from macOS and Windows carry along
+function isIgnored(relativePath: string) {
+  return relativePath.split('/').some(part => part === '__MACOSX' || part.startsWith('.') || part === 'Thumbs.db');
+}
+
+// Multi-page TIFFs (common from scanners) become one PNG per page
+function tiffToPngs(data: Buffer) {
+  return UTIF.decode(data)
+    .filter(ifd => ifd.t256 !== undefined) // Skip directories without an image (EXIF, thumbnails)
+    .map(ifd => {
+      UTIF.decodeImage(data, ifd);
+      const png = new PNG({ width: ifd.width, height: ifd.height });
+      png.data = Buffer.from(UTIF.toRGBA8(ifd));
+      return PNG.sync.write(png);
+    });
+}
+
+async function addImagePage(pdf: PDFDocument, data: Buffer, kind: 'jpg' | 'png') {
+  const image = kind === 'jpg' ? await pdf.embedJpg(data) : await pdf.embedPng(data);
+  // Photos are scaled to fit an A4 page, so a 4000px photo doesn't become a poster-sized page.
+  // Landscape photos get a landscape page.
+  const [pageWidth, pageHeight] = image.width > image.height ? [PAGE_HEIGHT, PAGE_WIDTH] : [PAGE_WIDTH, PAGE_HEIGHT];
+  const scale = Math.min(pageWidth / image.width, pageHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  const page = pdf.addPage([pageWidth, pageHeight]);
+  page.drawImage(image, { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height });
+}
+
+// Append one file to a student's PDF - PDFs are copied page by page, images become pages.
+// Returns false for damaged files.
+async function appendToPdf(pdf: PDFDocument, file: SubmissionFile) {
+  try {
+    const data = await file.load();
+    if (file.kind === 'pdf') {
+      const source = await PDFDocument.load(data);
+      const pages = await pdf.copyPages(source, source.getPageIndices());
+      pages.forEach(page => pdf.addPage(page));
+    } else if (file.kind === 'tiff') {
+      for (const png of tiffToPngs(data)) {
+        await addImagePage(pdf, png, 'png');
+      }
+    } else if (file.kind === 'jpg' || file.kind === 'png') {
+      await addImagePage(pdf, data, file.kind);
+    }
+    return true;
+  } catch (error) {
+    console.warn(`Could not convert ${file.relativePath}:`, error);
+    return false;
+  }
+}
+
+const compareNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Files directly in the top folder are one student each; everything in a subfolder
+// (however deeply nested) belongs to the student that folder is named after
+function groupByStudent(files: SubmissionFile[]): StudentGroup[] {
+  const paths = files.map(file => file.relativePath.split('/').filter(Boolean));
+  // A folder upload or a zip usually wraps everything in one folder - that isn't a student
+  let commonDepth = 0;
+  while (
+    paths.length > 0 &&
+    paths.every(parts => parts.length > commonDepth + 1 && parts[commonDepth] === paths[0][commonDepth])
+  ) {
+    commonDepth++;
+  }
+
+  const groups = new Map<string, StudentGroup>();
+  files.forEach((file, index) => {
+    const parts = paths[index].slice(commonDepth);
+    // Loose files are keyed by position - two uploads can share a name (e.g. "scan.pdf" from two folders)
+    const key = parts.length > 1 ? `${parts[0]}/` : `${index}`;
+    const group = groups.get(key) || { sourceName: parts[0], files: [] };
+    group.files.push(file);
+    groups.set(key, group);
+  });
+  // Pages within a folder go in file name order (page1.jpg, page2.jpg, ..., page10.jpg)
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    files: [...group.files].sort((a, b) => compareNames(a.relativePath, b.relativePath))
+  }));
+}
+
+// The first bytes of a zip entry - only that much is decompressed, the rest waits until the entry is converted
+function readEntryHeader(entry: JSZip.JSZipObject) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    let header = Buffer.alloc(0);
+    stream.on('data', (chunk: Buffer) => {
+      header = Buffer.concat([header, chunk]);
+      if (header.length >= 8) {
+        stream.pause();
+        resolve(header.subarray(0, 8));
+      }
+    });
+    stream.on('end', () => resolve(header));
+    stream.on('error', reject);
+  });
+}
+
+async function readZip(data: Buffer, skipped: string[]) {
+  const zip = await JSZip.loadAsync(data);
+  const entries = Object.values(zip.files)
+    .filter(entry => !entry.dir && !isIgnored(entry.name))
+    .sort((a, b) => compareNames(a.name, b.name));
+
+  const files: SubmissionFile[] = [];
+  for (const entry of entries) {
+    // A damaged entry is skipped like an unsupported one
+    const kind = fileKind(await readEntryHeader(entry).catch(() => Buffer.alloc(0)));
+    // Zips inside zips aren't unpacked
+    if (kind === null || kind === 'zip') {
+      skipped.push(entry.name);
+      continue;
+    }
+    files.push({ relativePath: entry.name, kind, load: () => entry.async('nodebuffer') });
+  }
+  return files;
+}
+
+// Turn the uploaded files into one PDF per student. Plain PDF uploads are kept as they are;
+// everything else is converted into new PDFs in outputDir and the uploaded originals are removed.
+export async function expandUpload(uploadedFiles: UploadedFile[], outputDir: string): Promise<ExpandedUpload> {
+  const convertedPaths: string[] = [];
+  try {
+    return await convertUpload(uploadedFiles, outputDir, convertedPaths);
+  } catch (error) {
+    // A failed upload leaves no converted PDFs behind - the uploaded files are left to the caller
+    await Promise.all(convertedPaths.map(pdfPath => fs.rm(pdfPath, { force: true })));
+    throw error;
+  }
+}
+
+async function convertUpload(uploadedFiles: UploadedFile[], outputDir: string, convertedPaths: string[]): Promise<ExpandedUpload> {
+  const skipped: string[] = [];
+  const submissions: Submission[] = [];
+  const looseFiles: SubmissionFile[] = [];
+  const zipGroups: StudentGroup[] = [];
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  let convertedCount = 0;
+
+  const writePdf = async (group: SubmissionFile[]) => {
+    const pdf = await PDFDocument.create();
+    for (const file of group) {
+      if (!await appendToPdf(pdf, file)) {
+        skipped.push(file.relativePath);
+      }
+    }
+    if (pdf.getPageCount() === 0) {
+      return null;
+    }
+    const pdfPath = path.join(outputDir, `converted-${uniqueSuffix}-${++convertedCount}.pdf`);
+    convertedPaths.push(pdfPath);
+    await fs.writeFile(pdfPath, await pdf.save());
+    return pdfPath;
+  };
+
+  for (const uploaded of uploadedFiles) {
+    const kind = fileKind(await readHeader(uploaded.path));
+    const relativePath = uploaded.originalname.replace(/\\/g, '/');
+    if (kind === 'zip') {
+      try {
+        zipGroups.push(...groupByStudent(await readZip(await fs.readFile(uploaded.path), skipped)));
+      } catch (error) {
+        // Only the header looks like a zip - skipped like any other damaged file
+        console.warn(`Could not read ${relativePath}:`, error);
+        skipped.push(relativePath);
+      }
+    } else if (kind !== null && !isIgnored(relativePath)) {
+      looseFiles.push({ relativePath, kind, load: () => fs.readFile(uploaded.path), uploadedPath: uploaded.path });
+      continue;
+    } else {
+      skipped.push(relativePath);
+    }
+    await fs.unlink(uploaded.path);
+  }
+
+  for (const { sourceName, files } of groupByStudent(looseFiles)) {
+    if (files.length === 1 && files[0].uploadedPath && files[0].kind === 'pdf') {
+      // A student's PDF can be used as uploaded
+      submissions.push({ pdfPath: files[0].uploadedPath, sourceName });
+      continue;
+    }
+    const pdfPath = await writePdf(files);
+    if (pdfPath) submissions.push({ pdfPath, sourceName });
+    for (const file of files) {
+      if (file.uploadedPath) await fs.unlink(file.uploadedPath);
+    }
+  }
+
+  for (const { sourceName, files } of zipGroups) {
+    const pdfPath = await writePdf(files);
+    if (pdfPath) submissions.push({ pdfPath, sourceName });
+  }
+
+  return { submissions, skipped };
+}
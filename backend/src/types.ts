@@ -0,0 +1,91 @@
+// Shared session types used by the server and the session store
+
+export interface StudentData {
+  id: number; // Upload order - only used as a key inside the session
+  name: string;
+  studentNumber?: string; // The registrar's student number, from the roster, file name or typed in
+  sourceName?: string; // Uploaded file or folder name, e.g. an LMS export like "doe_jane_12345_submission.pdf"
+  originalPdfPath: string; // File path instead of buffer for better memory usage
+  pageLabels: { [pageNumber: number]: string[] }; // pageNumber -> array of problem IDs ('-' = not a problem)
+  pageRegions?: { [pageNumber: number]: PageRegion[] }; // Parts of a page that go to a single problem
+  processingStatus: 'pending' | 'processing' | 'completed' | 'error';
+  processingError?: string;
+  anonymousCode?: string; // Stamped instead of the name in blind grading mode
+  scores?: { [problemId: string]: number }; // Points entered in the grading view
+}
+
+// Part of a page that belongs to one of its problems - normalized 0-1 coordinates,
+// measured from the top left of the page as displayed (after its rotation)
+export interface PageRegion {
+  problemId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A page of a problem PDF - only a reference, the page is copied from the student's upload at finalize
+export interface ProblemPage {
+  studentId: number;
+  studentName: string;
+  pageNumber: number; // 0 for a generated "No answer submitted" page
+  region?: PageRegion; // Only this part of the page belongs to the problem
+}
+
+// One problem of the exam definition - max points are kept in SessionData.maxPoints
+export interface ProblemDefinition {
+  id: string; // e.g. "3a"
+  title: string;
+}
+
+// One student of the class roster imported for a session
+export interface RosterEntry {
+  name: string;
+  studentNumber: string;
+  email: string;
+}
+
+// Where a page in a finalized problem PDF came from
+export interface PageRef {
+  studentId: number;
+  pageNumber: number; // 0 for a generated "No answer submitted" page
+}
+
+// How students are ordered inside every problem PDF - 'random' is seeded, so it is the same in each PDF
+export type StudentOrder = 'upload' | 'name' | 'number' | 'random';
+
+export type WatermarkPosition = 'right' | 'left' | 'top' | 'bottom' | 'header';
+
+export interface WatermarkSettings {
+  template: string; // Placeholders: {problem}, {name}, {studentNumber}, {studentId} (upload order), {page}
+  position: WatermarkPosition; // 'header' adds a white strip above the page instead of drawing on it
+  fontSize: number;
+  color: string; // Hex color, e.g. #ff0000
+  opacity: number; // 0-1
+}
+
+export interface SessionData {
+  id: string;
+  name: string;
+  createdAt: string;
+  uploadDir: string; // Temp directory holding this session's uploaded PDFs
+  batchPdfPath?: string; // Scanned batch of the whole class, kept until it is split into students
+  watermark: WatermarkSettings;
+  anonymize: boolean; // Blind grading: stamp anonymous codes and shuffle students in problem PDFs
+  placeholderPages: boolean; // Finalize adds a "No answer submitted" page for every problem a student has no page for
+  studentOrder: StudentOrder;
+  orderSeed: string; // Seed of the 'random' order - keep it to reproduce the same order later
+  examProblems: ProblemDefinition[]; // Problems pages can be labeled with, in exam order (empty = not defined yet)
+  roster: RosterEntry[]; // Class list for name suggestions (empty = no roster imported)
+  students: StudentData[];
+  problemPages: { [problemId: string]: ProblemPage[] };
+  finalPdfPaths: { [problemId: string]: string }; // Problem PDFs of the last finalize, in the session's page store
+  finalLayout: { [problemId: string]: PageRef[] }; // Page order of each problem PDF at the last finalize
+  finalCoverPages: { [problemId: string]: number }; // Cover pages in front of the students in each problem PDF
+  coverPage: boolean; // Finalize adds a cover page with a table of contents to each problem PDF
+  gradedPdfPaths: { [problemId: string]: string }; // Annotated problem PDFs uploaded after grading
+  maxPoints: { [problemId: string]: number };
+}
+
+// The part of a session that is written to disk - rendered pages are rebuilt on startup
+export type PersistedSession = Pick<SessionData, 'id' | 'name' | 'createdAt' | 'uploadDir' | 'batchPdfPath' | 'watermark' | 'anonymize' | 'placeholderPages' | 'studentOrder' | 'orderSeed' | 'examProblems' | 'roster' | 'students' | 'finalLayout' | 'finalCoverPages' | 'coverPage' | 'gradedPdfPaths' | 'maxPoints'>;
@@ -0,0 +1,361 @@
+import fs from 'fs/promises';
+import path from 'path';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, RGB, degrees, rgb } from 'pdf-lib';
+import { WatermarkPosition, WatermarkSettings } from './types';
+
+// Default before real student numbers existed - it printed the upload order as the student number
+export const PREVIOUS_DEFAULT_TEMPLATE = 'Problem {problem} - {name} - Student nr: {studentId}';
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  template: 'Problem {problem} - {name} - Student nr: {studentNumber}',
+  position: 'right',
+  fontSize: 20,
+  color: '#ff0000',
+  opacity: 0.3
+};
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['right', 'left', 'top', 'bottom', 'header'];
+
+// Fonts are tried in this order for every character of a label. DejaVu Sans covers Latin
+// (including Swedish, Polish and Turkish), Greek and Cyrillic; Noto Sans SC adds CJK and
+// Noto Emoji adds (monochrome) emoji. Noto Sans SC is an optional dependency because of its size.
+const BUNDLED_FONTS = [
+  { name: 'DejaVuSans', file: 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf' },
+  { name: 'NotoSansSC', file: '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf' },
+  { name: 'NotoEmoji', file: '@expo-google-fonts/noto-emoji/400Regular/NotoEmoji_400Regular.ttf' }
+];
+
+// Extra TTF/OTF files appended to the fallback chain, separated like PATH
+const EXTRA_FONT_PATHS = (process.env.WATERMARK_FONT_PATHS || '').split(path.delimiter).filter(Boolean);
+
+// Invisible joiners, variation selectors, control characters and emoji skin tone
+// modifiers have no glyph of their own in a monochrome font
+const INVISIBLE_CHARS = /[\p{Cc}\p{Cf}\u{FE00}-\u{FE0F}\u{1F3FB}-\u{1F3FF}]/gu;
+
+// Letters that don't decompose into a base letter + diacritic under NFD
+const TRANSLITERATIONS: { [char: string]: string } = {
+  'ł': 'l', 'Ł': 'L', 'ø': 'o', 'Ø': 'O', 'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D',
+  'ı': 'i', 'ħ': 'h', 'Ħ': 'H', 'þ': 'th', 'Þ': 'Th', 'ß': 'ss', 'æ': 'ae', 'Æ': 'AE',
+  'œ': 'oe', 'Œ': 'OE', '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"'
+};
+
+interface WatermarkFont {
+  name: string;
+  bytes?: Buffer; // Missing for the standard Helvetica last resort
+  codePoints: Set<number>;
+}
+
+export interface WatermarkRun {
+  text: string;
+  font: PDFFont;
+}
+
+export interface PreparedWatermark {
+  runs: WatermarkRun[];
+  widthAtSize: (size: number) => number;
+}
+
+export interface WatermarkDrawOptions {
+  x: number;
+  y: number;
+  size: number;
+  color: RGB;
+  opacity: number;
+  rotate: number; // Degrees, counter-clockwise
+}
+
+// Helvetica only covers WinAnsi - printable ASCII and Latin-1 is close enough for sanitizing
+const HELVETICA_FALLBACK: WatermarkFont = {
+  name: StandardFonts.Helvetica,
+  codePoints: new Set([
+    ...Array.from({ length: 0x7e - 0x20 + 1 }, (_, i) => 0x20 + i),
+    ...Array.from({ length: 0xff - 0xa0 + 1 }, (_, i) => 0xa0 + i)
+  ])
+};
+
+let fontChainPromise: Promise<WatermarkFont[]> | null = null;
+
+async function loadFont(name: string, fontPath: string): Promise<WatermarkFont | null> {
+  try {
+    const bytes = await fs.readFile(fontPath);
+    const parsed = fontkit.create(bytes);
+    console.log(`Loaded watermark font ${name} (${parsed.characterSet.length} characters) from ${fontPath}`);
+    return { name, bytes, codePoints: new Set(parsed.characterSet) };
+  } catch (error) {
+    console.warn(`Watermark font ${name} is not available (${fontPath}):`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Load the font chain once and share it between all students and sessions
+function getFontChain(): Promise<WatermarkFont[]> {
+  if (!fontChainPromise) {
+    fontChainPromise = (async () => {
+      const candidates: { name: string; fontPath: string }[] = [];
+      for (const font of BUNDLED_FONTS) {
+        try {
+          candidates.push({ name: font.name, fontPath: require.resolve(font.file) });
+        } catch {
+          console.warn(`Watermark font ${font.name} is not installed, skipping it`);
+        }
+      }
+      for (const fontPath of EXTRA_FONT_PATHS) {
+        candidates.push({ name: path.basename(fontPath, path.extname(fontPath)), fontPath });
+      }
+
+      const fonts: WatermarkFont[] = [];
+      for (const candidate of candidates) {
+        const font = await loadFont(candidate.name, candidate.fontPath);
+        if (font) {
+          fonts.push(font);
+        }
+      }
+
+      if (fonts.length === 0) {
+        console.warn('No Unicode watermark fonts could be loaded - falling back to Helvetica');
+      }
+      fonts.push(HELVETICA_FALLBACK);
+      return fonts;
+    })();
+  }
+  return fontChainPromise;
+}
+
+function findFont(fonts: WatermarkFont[], char: string) {
+  const codePoint = char.codePointAt(0)!;
+  return fonts.find(font => font.codePoints.has(codePoint));
+}
+
+function transliterate(char: string) {
+  if (TRANSLITERATIONS[char]) {
+    return TRANSLITERATIONS[char];
+  }
+  // Strip diacritics, e.g. ğ -> g, ő -> o
+  return char.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+// Split text into runs that can each be drawn with a single font. Characters no font covers
+// are transliterated when possible and replaced with '?' otherwise, so a name never fails processing.
+function splitIntoRuns(fonts: WatermarkFont[], text: string) {
+  const runs: { text: string; font: WatermarkFont }[] = [];
+  const replaced: string[] = [];
+
+  const append = (char: string, font: WatermarkFont) => {
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && lastRun.font === font) {
+      lastRun.text += char;
+    } else {
+      runs.push({ text: char, font });
+    }
+  };
+
+  for (const char of text.normalize('NFC').replace(INVISIBLE_CHARS, '')) {
+    const font = findFont(fonts, char);
+    if (font) {
+      append(char, font);
+      continue;
+    }
+
+    replaced.push(char);
+    const replacement = Array.from(transliterate(char));
+    const replacementFonts = replacement.map(c => findFont(fonts, c));
+    if (replacement.length > 0 && replacementFonts.every(Boolean)) {
+      replacement.forEach((c, i) => append(c, replacementFonts[i]!));
+    } else {
+      append('?', findFont(fonts, '?')!);
+    }
+  }
+
+  if (replaced.length > 0) {
+    console.warn(`Watermark text "${text}" has characters no font covers, replaced: ${replaced.join(' ')}`);
+  }
+  return runs;
+}
+
+// Fonts are embedded once per document and subset, so only the glyphs actually used end up in the PDF
+const embeddedFonts = new WeakMap<PDFDocument, Map<string, PDFFont>>();
+
+async function embedFont(doc: PDFDocument, font: WatermarkFont) {
+  let fontsForDoc = embeddedFonts.get(doc);
+  if (!fontsForDoc) {
+    fontsForDoc = new Map();
+    embeddedFonts.set(doc, fontsForDoc);
+    doc.registerFontkit(fontkit);
+  }
+
+  let embedded = fontsForDoc.get(font.name);
+  if (!embedded) {
+    embedded = font.bytes
+      ? await doc.embedFont(font.bytes, { subset: true })
+      : await doc.embedFont(StandardFonts.Helvetica);
+    fontsForDoc.set(font.name, embedded);
+  }
+  return embedded;
+}
+
+// Resolve fonts for a watermark label and embed them into the document
+export async function prepareWatermark(doc: PDFDocument, text: string): Promise<PreparedWatermark> {
+  const fonts = await getFontChain();
+  const runs: WatermarkRun[] = [];
+  for (const run of splitIntoRuns(fonts, text)) {
+    runs.push({ text: run.text, font: await embedFont(doc, run.font) });
+  }
+
+  return {
+    runs,
+    widthAtSize: (size: number) => runs.reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0)
+  };
+}
+
+// Draw the runs one after another along the (possibly rotated) baseline
+export function drawWatermark(page: PDFPage, watermark: PreparedWatermark, options: WatermarkDrawOptions) {
+  const angle = (options.rotate * Math.PI) / 180;
+  let x = options.x;
+  let y = options.y;
+
+  for (const run of watermark.runs) {
+    page.drawText(run.text, {
+      x,
+      y,
+      size: options.size,
+      font: run.font,
+      color: options.color,
+      opacity: options.opacity,
+      rotate: degrees(options.rotate)
+    });
+
+    const runWidth = run.font.widthOfTextAtSize(run.text, options.size);
+    x += runWidth * Math.cos(angle);
+    y += runWidth * Math.sin(angle);
+  }
+}
+
+export interface WatermarkValues {
+  problem: string;
+  name: string;
+  studentId: number; // Upload order
+  studentNumber: string; // Real student number, empty when there is none
+  page: number;
+}
+
+// Validate watermark settings from a request body, filling in defaults for missing fields.
+// Only the known fields are read, anything else in the body is ignored.
+export function parseWatermarkSettings(input: unknown, base: WatermarkSettings = DEFAULT_WATERMARK_SETTINGS): WatermarkSettings | string {
+  if (!input || typeof input !== 'object') {
+    return 'Watermark settings must be an object';
+  }
+
+  const {
+    template = base.template,
+    position = base.position,
+    fontSize = base.fontSize,
+    color = base.color,
+    opacity = base.opacity
+  } = input as { [field in keyof WatermarkSettings]?: unknown };
+  if (typeof template !== 'string' || template.length > 300) {
+    return 'Watermark template must be a string of at most 300 characters';
+  }
+  if (!WATERMARK_POSITIONS.includes(position as WatermarkPosition)) {
+    return `Watermark position must be one of: ${WATERMARK_POSITIONS.join(', ')}`;
+  }
+  if (typeof fontSize !== 'number' || fontSize < 4 || fontSize > 72) {
+    return 'Watermark font size must be between 4 and 72';
+  }
+  if (typeof color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+    return 'Watermark color must be a hex color like #ff0000';
+  }
+  if (typeof opacity !== 'number' || opacity < 0 || opacity > 1) {
+    return 'Watermark opacity must be between 0 and 1';
+  }
+
+  return {
+    template,
+    position: position as WatermarkPosition,
+    fontSize,
+    color: color.toLowerCase(),
+    opacity
+  };
+}
+
+const PLACEHOLDERS = /\{(problem|name|studentId|studentNumber|page)\}/g;
+
+// Fill in the template. A " - " separated segment whose placeholders are all empty is left out,
+// so a student without a number doesn't get a dangling "Student nr:".
+export function formatWatermarkText(template: string, values: WatermarkValues) {
+  return template
+    .split(' - ')
+    .filter(segment => {
+      const keys = Array.from(segment.matchAll(PLACEHOLDERS), match => match[1] as keyof WatermarkValues);
+      return keys.length === 0 || keys.some(key => String(values[key]) !== '');
+    })
+    .map(segment => segment.replace(PLACEHOLDERS, (_, key: keyof WatermarkValues) => String(values[key])))
+    .join(' - ');
+}
+
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+// Stamp a watermark label onto a page according to the session's layout settings
+export async function stampWatermark(doc: PDFDocument, page: PDFPage, values: WatermarkValues, settings: WatermarkSettings) {
+  const text = formatWatermarkText(settings.template, values).trim();
+  if (!text) {
+    return;
+  }
+
+  const watermark = await prepareWatermark(doc, text);
+  // The visible area of the page - the crop box falls back to the media box when not set
+  const box = page.getCropBox();
+  const vertical = settings.position === 'right' || settings.position === 'left';
+  let fontSize = settings.fontSize;
+
+  // Shrink long labels so they always fit along the edge they are drawn on
+  const available = (vertical ? box.height : box.width) - 2 * fontSize;
+  const naturalWidth = watermark.widthAtSize(fontSize);
+  if (naturalWidth > available && available > 0) {
+    fontSize = fontSize * (available / naturalWidth);
+  }
+  const textWidth = watermark.widthAtSize(fontSize);
+
+  const style = {
+    size: fontSize,
+    color: hexToRgb(settings.color),
+    opacity: settings.opacity
+  };
+  const centerX = box.x + box.width / 2 - textWidth / 2;
+  const centerY = box.y + box.height / 2 - textWidth / 2;
+
+  switch (settings.position) {
+    case 'right':
+      drawWatermark(page, watermark, { ...style, x: box.x + box.width - fontSize, y: centerY, rotate: 90 });
+      break;
+    case 'left':
+      drawWatermark(page, watermark, { ...style, x: box.x + fontSize * 1.25, y: centerY, rotate: 90 });
+      break;
+    case 'top':
+      drawWatermark(page, watermark, { ...style, x: centerX, y: box.y + box.height - fontSize * 1.25, rotate: 0 });
+      break;
+    case 'bottom':
+      drawWatermark(page, watermark, { ...style, x: centerX, y: box.y + fontSize * 0.75, rotate: 0 });
+      break;
+    case 'header': {
+      // Grow the page upwards and put the label in the new white strip, so it never covers answers
+      const bandHeight = settings.fontSize * 2;
+      const bandBottom = box.y + box.height;
+      const mediaBox = page.getMediaBox();
+      page.setMediaBox(mediaBox.x, mediaBox.y, mediaBox.width, mediaBox.height + bandHeight);
+      page.setCropBox(box.x, box.y, box.width, box.height + bandHeight);
+
+      page.drawRectangle({ x: box.x, y: bandBottom, width: box.width, height: bandHeight, color: rgb(1, 1, 1) });
+      drawWatermark(page, watermark, {
+        ...style,
+        x: centerX,
+        y: bandBottom + bandHeight / 2 - fontSize * 0.35,
+        rotate: 0
+      });
+      break;
+    }
+  }
+}
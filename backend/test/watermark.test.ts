@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+import { DEFAULT_WATERMARK_SETTINGS, formatWatermarkText, parseWatermarkSettings, prepareWatermark, stampWatermark } from '../src/watermark';
+
+// Names from the classes this has to work for - DejaVu Sans can't draw the last two
+const NAMES = ['Åsa Öberg', 'Łukasz Wąsik', 'Ayşe Doğan', '漢字 太郎', 'Kim 🎓🦊'];
+
+// Name of the embedded font each character of the label is drawn with
+function fontsByChar(runs: { text: string; font: { name: string } }[]) {
+  return runs.flatMap(run => Array.from(run.text).map(char => [char, run.font.name]));
+}
+
+test('stamps every name without throwing', async () => {
+  const doc = await PDFDocument.create();
+  for (const name of NAMES) {
+    const page = doc.addPage([595.28, 841.89]);
+    await stampWatermark(doc, page, { problem: '1a', name, studentId: 1, studentNumber: '12345', page: 1 }, DEFAULT_WATERMARK_SETTINGS);
+  }
+  assert.ok((await doc.save()).length > 0);
+});
+
+test('draws Latin names with diacritics in DejaVu Sans', async () => {
+  const doc = await PDFDocument.create();
+  for (const name of NAMES.slice(0, 3)) {
+    const watermark = await prepareWatermark(doc, name);
+    assert.equal(watermark.runs.map(run => run.text).join(''), name);
+    for (const [char, font] of fontsByChar(watermark.runs)) {
+      assert.match(font, /DejaVuSans/, `${char} of ${name}`);
+    }
+  }
+});
+
+test('draws CJK in Noto Sans SC and emoji in Noto Emoji', async () => {
+  const doc = await PDFDocument.create();
+  const cjk = new Map(fontsByChar((await prepareWatermark(doc, NAMES[3])).runs) as [string, string][]);
+  assert.match(cjk.get('漢')!, /NotoSansSC/);
+  assert.match(cjk.get('郎')!, /NotoSansSC/);
+
+  const emoji = new Map(fontsByChar((await prepareWatermark(doc, NAMES[4])).runs) as [string, string][]);
+  assert.match(emoji.get('K')!, /DejaVuSans/);
+  assert.match(emoji.get('🎓')!, /NotoEmoji/);
+  assert.match(emoji.get('🦊')!, /NotoEmoji/);
+});
+
+test('leaves out the student number segment when a student has none', () => {
+  const values = { problem: '3', name: 'Åsa Öberg', studentId: 7, studentNumber: '', page: 2 };
+  assert.equal(formatWatermarkText(DEFAULT_WATERMARK_SETTINGS.template, values), 'Problem 3 - Åsa Öberg');
+  assert.equal(
+    formatWatermarkText(DEFAULT_WATERMARK_SETTINGS.template, { ...values, studentNumber: '12345' }),
+    'Problem 3 - Åsa Öberg - Student nr: 12345'
+  );
+});
+
+test('parses only the known watermark settings', () => {
+  const settings = parseWatermarkSettings({ fontSize: 30, color: '#00AA00', extra: 'ignored' });
+  assert.deepEqual(settings, { ...DEFAULT_WATERMARK_SETTINGS, fontSize: 30, color: '#00aa00' });
+  assert.equal(typeof parseWatermarkSettings({ position: 'middle' }), 'string');
+  assert.equal(typeof parseWatermarkSettings('right'), 'string');
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Module from 'module';
+import { PDFDocument } from 'pdf-lib';
+
+// Noto Sans SC is an optional dependency - pretend it didn't install. Test files run in
+// separate processes, so this only affects the font chain loaded by this file.
+const moduleInternals = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string };
+const resolveFilename = moduleInternals._resolveFilename;
+moduleInternals._resolveFilename = (request, ...rest) => {
+  if (request.startsWith('@expo-google-fonts/noto-sans-sc')) {
+    throw new Error(`Cannot find module '${request}'`);
+  }
+  return resolveFilename(request, ...rest);
+};
+
+test('replaces CJK with ? without Noto Sans SC and keeps the rest of the name', async () => {
+  const { prepareWatermark, stampWatermark, DEFAULT_WATERMARK_SETTINGS } = await import('../src/watermark');
+  const doc = await PDFDocument.create();
+
+  const watermark = await prepareWatermark(doc, 'Łukasz 漢字 🎓');
+  assert.equal(watermark.runs.map(run => run.text).join(''), 'Łukasz ?? 🎓');
+  assert.ok(watermark.runs.every(run => !/NotoSansSC/.test(run.font.name)));
+
+  const page = doc.addPage([595.28, 841.89]);
+  await stampWatermark(doc, page, { problem: '2', name: '漢字 太郎', studentId: 1, studentNumber: '', page: 1 }, DEFAULT_WATERMARK_SETTINGS);
+  assert.ok((await doc.save()).length > 0);
+});
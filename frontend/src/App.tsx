@@ -1,76 +1,207 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Container, Typography, AppBar, Toolbar, Chip } from '@mui/material';
+import { Box, Container, Typography, AppBar, Toolbar, Chip, Alert } from '@mui/material';
 import FileUploadPage from './components/FileUploadPage';
 import SortingPage from './components/SortingPage';
 import DownloadPage from './components/DownloadPage';
-import ProgressBar from './components/ProgressBar';
+import GradingPage from './components/GradingPage';
+import ExamDefinitionPage from './components/ExamDefinitionPage';
+import BatchSplitPage from './components/BatchSplitPage';
+import ReviewPage, { FinalizeOptions } from './components/ReviewPage';
+import { PageRegion } from './components/PDFViewer';
+import ProgressBar, { FinalizeProgress, StudentProgress } from './components/ProgressBar';
+import { sessionApiUrl, getLastSessionId, setLastSessionId } from './utils/api';
 
-export type AppPhase = 'upload' | 'sorting' | 'download';
+export type AppPhase = 'upload' | 'split' | 'exam' | 'sorting' | 'review' | 'download' | 'grading';
 
 interface StudentData {
   studentId: number;
   studentName: string;
+  studentNumber: string;
   pdfData: string;
-  pageLabels: { [pageNumber: number]: number[] };
+  pageLabels: { [pageNumber: number]: string[] };
+  pageRegions: { [pageNumber: number]: PageRegion[] };
 }
 
 interface AppState {
   phase: AppPhase;
+  sessionId: string | null;
+  sessionName: string;
+  examDefined: boolean;
   totalStudents: number;
   currentStudentId: number;
-  problems: number[];
-  processingStudents: number;
+  returnToReview: boolean; // Set while fixing a student opened from the review page
+  problems: string[];
+  anonymized: boolean;
+  studentProgress: StudentProgress[]; // Live from the session's event stream
+  finalizeProgress: FinalizeProgress | null; // Set while the problem PDFs are being created
+  eventError: string;
   prefetchedStudentData: StudentData | null; // Cache for prefetched next student
 }
 
 function App() {
   const [appState, setAppState] = useState<AppState>({
     phase: 'upload',
+    sessionId: null,
+    sessionName: '',
+    examDefined: false,
     totalStudents: 0,
     currentStudentId: 1,
+    returnToReview: false,
     problems: [],
-    processingStudents: 0,
+    anonymized: false,
+    studentProgress: [],
+    finalizeProgress: null,
+    eventError: '',
     prefetchedStudentData: null
   });
 
-  // Poll processing status during sorting phase
-  useEffect(() => {
-    if (appState.phase !== 'sorting') return;
+  // Open an existing session at the first unlabeled student (or the review if everything is labeled)
+  const resumeSession = async (sessionId: string) => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/status'));
+      if (!response.ok) {
+        // The session no longer exists on the server
+        setLastSessionId(null);
+        return;
+      }
+      const status = await response.json();
 
-    const pollStatus = async () => {
-      try {
-        const response = await fetch('/api/status');
-        const status = await response.json();
-        
+      if (!status.totalStudents && status.hasBatch) {
+        // A batch scan was uploaded but not split into students yet
+        setLastSessionId(sessionId);
         setAppState(prev => ({
           ...prev,
-          processingStudents: status.processingStudents
+          phase: 'split',
+          sessionId,
+          sessionName: status.sessionName,
+          totalStudents: 0
         }));
-      } catch (error) {
-        console.error('Failed to poll status:', error);
+        return;
       }
-    };
 
-    // Poll every 2 seconds during sorting
-    const interval = setInterval(pollStatus, 2000);
-    pollStatus(); // Initial poll
+      if (!status.totalStudents) {
+        // Nothing was uploaded to this session yet, so there is nothing to resume
+        setLastSessionId(null);
+        return;
+      }
+      setLastSessionId(sessionId);
+
+      if (status.examProblems === 0 && status.labeledStudents === 0) {
+        // The problem list hasn't been entered yet
+        setAppState(prev => ({
+          ...prev,
+          phase: 'exam',
+          sessionId,
+          sessionName: status.sessionName,
+          examDefined: false,
+          totalStudents: status.totalStudents,
+          currentStudentId: 1,
+          prefetchedStudentData: null
+        }));
+      } else if (status.firstUnlabeledStudentId !== null) {
+        console.log(`Resuming session "${status.sessionName}" at student ${status.firstUnlabeledStudentId} of ${status.totalStudents}`);
+        setAppState(prev => ({
+          ...prev,
+          phase: 'sorting',
+          sessionId,
+          sessionName: status.sessionName,
+          examDefined: true,
+          totalStudents: status.totalStudents,
+          currentStudentId: status.firstUnlabeledStudentId,
+          prefetchedStudentData: null
+        }));
+      } else {
+        // Every student is already labeled - check the overview before finalizing
+        console.log(`Resuming fully labeled session "${status.sessionName}" at the review`);
+        setAppState(prev => ({
+          ...prev,
+          phase: 'review',
+          sessionId,
+          sessionName: status.sessionName,
+          examDefined: true,
+          totalStudents: status.totalStudents
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+    }
+  };
+
+  // Resume the last opened session (e.g. after a page reload or a server restart)
+  useEffect(() => {
+    const lastSessionId = getLastSessionId();
+    if (lastSessionId) {
+      resumeSession(lastSessionId);
+    }
+  }, []);
+
+  // Follow student processing and finalize progress of the open session as it happens
+  useEffect(() => {
+    if (!appState.sessionId) return;
+    const events = new EventSource(sessionApiUrl(appState.sessionId, '/events'));
+
+    events.addEventListener('students', (event) => {
+      const { students } = JSON.parse((event as MessageEvent).data);
+      setAppState(prev => ({ ...prev, studentProgress: students }));
+    });
+    events.addEventListener('student', (event) => {
+      const student: StudentProgress = JSON.parse((event as MessageEvent).data);
+      setAppState(prev => ({
+        ...prev,
+        studentProgress: prev.studentProgress.some(s => s.id === student.id)
+          ? prev.studentProgress.map(s => s.id === student.id ? student : s)
+          : [...prev.studentProgress, student]
+      }));
+    });
+    events.addEventListener('finalize', (event) => {
+      const finalizeProgress: FinalizeProgress = JSON.parse((event as MessageEvent).data);
+      // The bar goes away once every problem PDF is done
+      setAppState(prev => ({ ...prev, finalizeProgress: finalizeProgress.completed === finalizeProgress.total ? null : finalizeProgress }));
+    });
+    events.addEventListener('failure', (event) => {
+      const { message } = JSON.parse((event as MessageEvent).data);
+      console.error(message);
+      setAppState(prev => ({ ...prev, eventError: message }));
+    });
 
-    return () => clearInterval(interval);
-  }, [appState.phase]);
+    // EventSource reconnects by itself and gets every student's state again on connecting
+    return () => events.close();
+  }, [appState.sessionId]);
 
-  const handleUploadComplete = (totalStudents: number) => {
+  const handleUploadComplete = (sessionId: string, sessionName: string, totalStudents: number) => {
+    setLastSessionId(sessionId);
     setAppState({
-      phase: 'sorting',
+      phase: 'exam',
+      sessionId,
+      sessionName,
+      examDefined: false,
       totalStudents,
       currentStudentId: 1,
+      returnToReview: false,
       problems: [],
-      processingStudents: 0,
+      anonymized: false,
+      studentProgress: [],
+      finalizeProgress: null,
+      eventError: '',
       prefetchedStudentData: null
     });
   };
 
+  const handleBatchUploaded = (sessionId: string, sessionName: string) => {
+    setLastSessionId(sessionId);
+    setAppState(prev => ({
+      ...prev,
+      phase: 'split',
+      sessionId,
+      sessionName,
+      totalStudents: 0
+    }));
+  };
+
   const handleStudentComplete = () => {
-    if (appState.currentStudentId < appState.totalStudents) {
+    if (appState.returnToReview) {
+      setAppState(prev => ({ ...prev, phase: 'review', returnToReview: false, prefetchedStudentData: null }));
+    } else if (appState.currentStudentId < appState.totalStudents) {
       setAppState(prev => {
         const nextStudentId = prev.currentStudentId + 1;
         
@@ -89,11 +220,30 @@ function App() {
         };
       });
     } else {
-      // All students processed, finalize and show download page
-      finalizeAndShowDownload();
+      // All students labeled - show the overview before finalizing
+      setAppState(prev => ({ ...prev, phase: 'review', prefetchedStudentData: null }));
     }
   };
 
+  // Jump to any student while sorting - a prefetched student is only kept if it's the one we jump to
+  const handleNavigate = (studentId: number) => {
+    setAppState(prev => ({
+      ...prev,
+      currentStudentId: studentId,
+      prefetchedStudentData: prev.prefetchedStudentData?.studentId === studentId ? prev.prefetchedStudentData : null
+    }));
+  };
+
+  const handleEditStudent = (studentId: number) => {
+    setAppState(prev => ({
+      ...prev,
+      phase: 'sorting',
+      currentStudentId: studentId,
+      returnToReview: true,
+      prefetchedStudentData: null
+    }));
+  };
+
   const handlePrefetchComplete = (studentId: number, data: StudentData) => {
     console.log(`📥 App received prefetched data for student ${studentId}, caching it`);
     setAppState(prev => ({
@@ -102,30 +252,17 @@ function App() {
     }));
   };
 
-  const finalizeAndShowDownload = async () => {
+  const finalizeAndShowDownload = async (sessionId: string, options?: FinalizeOptions) => {
     try {
-      // First check if all background processing is complete
-      const statusResponse = await fetch('/api/status');
-      const status = await statusResponse.json();
-      
-      if (status.processingStudents > 0) {
-        console.log(`Waiting for ${status.processingStudents} students to finish processing...`);
-        // Wait a bit and try again
-        setTimeout(finalizeAndShowDownload, 2000);
-        return;
-      }
-      
-      if (status.errorStudents > 0) {
-        console.error(`${status.errorStudents} students had processing errors. Check logs for details.`);
-        alert(`Warning: ${status.errorStudents} students had processing errors during background processing. You may want to check the server logs and try resubmitting those students.`);
-      }
-      
-      console.log('All students processed, finalizing...');
-      const response = await fetch('/api/finalize', {
+      // The review page waits for background processing and lists failed students - finalize refuses
+      // while students are processing, or failed unless skipping them was confirmed
+      console.log('Finalizing...');
+      const response = await fetch(sessionApiUrl(sessionId, '/finalize'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
-        }
+        },
+        body: JSON.stringify(options || {})
       });
       
       const result = await response.json();
@@ -133,23 +270,44 @@ function App() {
         setAppState(prev => ({
           ...prev,
           phase: 'download',
-          problems: result.problems
+          problems: result.problems,
+          anonymized: Boolean(result.anonymized)
         }));
+      } else {
+        alert(result.error || 'Failed to create the problem PDFs');
       }
     } catch (error) {
       console.error('Failed to finalize:', error);
+    } finally {
+      setAppState(prev => ({ ...prev, finalizeProgress: null }));
+    }
+  };
+
+  const handleFinalize = async (options: FinalizeOptions) => {
+    if (appState.sessionId) {
+      await finalizeAndShowDownload(appState.sessionId, options);
     }
   };
 
   const handleReset = async () => {
     try {
-      await fetch('/api/reset', { method: 'POST' });
+      if (appState.sessionId) {
+        await fetch(sessionApiUrl(appState.sessionId, ''), { method: 'DELETE' });
+      }
+      setLastSessionId(null);
       setAppState({
         phase: 'upload',
+        sessionId: null,
+        sessionName: '',
+        examDefined: false,
         totalStudents: 0,
         currentStudentId: 1,
+        returnToReview: false,
         problems: [],
-        processingStudents: 0,
+        anonymized: false,
+        studentProgress: [],
+        finalizeProgress: null,
+        eventError: '',
         prefetchedStudentData: null
       });
     } catch (error) {
@@ -157,6 +315,8 @@ function App() {
     }
   };
 
+  const processingStudents = appState.studentProgress.filter(s => s.processingStatus === 'processing').length;
+
   return (
     <Box sx={{ flexGrow: 1 }}>
       <AppBar position="static">
@@ -164,14 +324,17 @@ function App() {
           <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
             Exam Grader
           </Typography>
+          {appState.sessionName && (
+            <Chip label={appState.sessionName} size="small" sx={{ mr: 2 }} />
+          )}
           {appState.phase === 'sorting' && (
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
               <Typography variant="body2">
                 Student {appState.currentStudentId} of {appState.totalStudents}
               </Typography>
-              {appState.processingStudents > 0 && (
+              {processingStudents > 0 && (
                 <Chip 
-                  label={`${appState.processingStudents} processing`}
+                  label={`${processingStudents} processing`}
                   color="primary"
                   size="small"
                   variant="outlined"
@@ -183,33 +346,100 @@ function App() {
       </AppBar>
 
       <Container maxWidth="xl" sx={{ mt: 4, mb: 4 }}>
+        {appState.eventError && (
+          <Alert severity="error" sx={{ mb: 3 }} onClose={() => setAppState(prev => ({ ...prev, eventError: '' }))}>
+            {appState.eventError}
+          </Alert>
+        )}
+
         {appState.phase === 'sorting' && (
           <ProgressBar
             current={appState.currentStudentId}
             total={appState.totalStudents}
+            students={appState.studentProgress}
+            finalize={null}
+          />
+        )}
+
+        {appState.phase === 'review' && appState.finalizeProgress && (
+          <ProgressBar
+            current={null}
+            total={appState.totalStudents}
+            students={appState.studentProgress}
+            finalize={appState.finalizeProgress}
           />
         )}
 
         {appState.phase === 'upload' && (
-          <FileUploadPage onUploadComplete={handleUploadComplete} />
+          <FileUploadPage
+            onUploadComplete={handleUploadComplete}
+            onBatchUploaded={handleBatchUploaded}
+            onResumeSession={resumeSession}
+          />
         )}
 
-        {appState.phase === 'sorting' && (
+        {appState.phase === 'split' && appState.sessionId && (
+          <BatchSplitPage
+            sessionId={appState.sessionId}
+            onComplete={(totalStudents) => setAppState(prev => ({
+              ...prev,
+              phase: 'exam',
+              examDefined: false,
+              totalStudents,
+              currentStudentId: 1,
+              prefetchedStudentData: null
+            }))}
+          />
+        )}
+
+        {appState.phase === 'exam' && appState.sessionId && (
+          <ExamDefinitionPage
+            sessionId={appState.sessionId}
+            onComplete={() => setAppState(prev => ({ ...prev, phase: 'sorting', examDefined: true, prefetchedStudentData: null }))}
+            onCancel={appState.examDefined ? () => setAppState(prev => ({ ...prev, phase: 'sorting' })) : undefined}
+          />
+        )}
+
+        {appState.phase === 'sorting' && appState.sessionId && (
           <SortingPage
+            sessionId={appState.sessionId}
             studentId={appState.currentStudentId}
             onStudentComplete={handleStudentComplete}
             totalStudents={appState.totalStudents}
             prefetchedStudentData={appState.prefetchedStudentData}
             onPrefetchComplete={handlePrefetchComplete}
+            onEditExam={() => setAppState(prev => ({ ...prev, phase: 'exam' }))}
+            onNavigate={handleNavigate}
+            onReview={() => setAppState(prev => ({ ...prev, phase: 'review', returnToReview: false, prefetchedStudentData: null }))}
+          />
+        )}
+
+        {appState.phase === 'review' && appState.sessionId && (
+          <ReviewPage
+            sessionId={appState.sessionId}
+            liveStudents={appState.studentProgress}
+            onEditStudent={handleEditStudent}
+            onFinalize={handleFinalize}
           />
         )}
 
-        {appState.phase === 'download' && (
+        {appState.phase === 'download' && appState.sessionId && (
           <DownloadPage
+            sessionId={appState.sessionId}
             problems={appState.problems}
+            anonymized={appState.anonymized}
+            onOpenGrading={() => setAppState(prev => ({ ...prev, phase: 'grading' }))}
+            onEditLabels={() => setAppState(prev => ({ ...prev, phase: 'review' }))}
             onReset={handleReset}
           />
         )}
+
+        {appState.phase === 'grading' && appState.sessionId && (
+          <GradingPage
+            sessionId={appState.sessionId}
+            onBack={() => setAppState(prev => ({ ...prev, phase: 'download' }))}
+          />
+        )}
       </Container>
     </Box>
   );
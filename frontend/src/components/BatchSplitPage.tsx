@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  CircularProgress,
+  Chip,
+  Grid
+} from '@mui/material';
+import { CallSplit, PersonAdd, LayersClear } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+import PDFViewer from './PDFViewer';
+
+type SplitMode = 'fixed' | 'separator' | 'manual';
+
+interface BatchSplitPageProps {
+  sessionId: string;
+  onComplete: (totalStudents: number) => void;
+}
+
+// Same rules as the backend: the first page always starts a student and skipped pages are dropped
+const toSegments = (pageCount: number, starts: Set<number>, skip: Set<number>) => {
+  const segments: number[][] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    if ((pageNumber === 1 || starts.has(pageNumber)) && (segments.length === 0 || segments[segments.length - 1].length > 0)) {
+      segments.push([]);
+    }
+    if (!skip.has(pageNumber)) {
+      segments[segments.length - 1].push(pageNumber);
+    }
+  }
+  return segments.filter(segment => segment.length > 0);
+};
+
+const toggle = (pages: Set<number>, pageNumber: number) => {
+  const next = new Set(pages);
+  if (next.has(pageNumber)) {
+    next.delete(pageNumber);
+  } else {
+    next.add(pageNumber);
+  }
+  return next;
+};
+
+const BatchSplitPage: React.FC<BatchSplitPageProps> = ({ sessionId, onComplete }) => {
+  const [pdfData, setPdfData] = useState('');
+  const [pageCount, setPageCount] = useState(0);
+  const [blankPages, setBlankPages] = useState<number[]>([]);
+  const [mode, setMode] = useState<SplitMode>('fixed');
+  const [pagesPerStudent, setPagesPerStudent] = useState('');
+  const [starts, setStarts] = useState<Set<number>>(new Set());
+  const [skip, setSkip] = useState<Set<number>>(new Set());
+  const [currentPage, setCurrentPage] = useState(1);
+  const [scale, setScale] = useState(1.0);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadBatch = async () => {
+      try {
+        const infoResponse = await fetch(sessionApiUrl(sessionId, '/batch/info'));
+        const info = await infoResponse.json();
+        if (!infoResponse.ok) {
+          setError(info.error || 'Failed to load batch PDF');
+          return;
+        }
+        setPageCount(info.pageCount);
+        setBlankPages(info.blankPages);
+
+        // PDFViewer takes base64 - convert in chunks so large scans don't overflow the call stack
+        const response = await fetch(sessionApiUrl(sessionId, '/batch'));
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        setPdfData(btoa(binary));
+      } catch (error) {
+        console.error('Failed to load batch PDF:', error);
+        setError('Failed to load batch PDF');
+      }
+    };
+    loadBatch();
+  }, [sessionId]);
+
+  // Every mode only fills in start and skip pages - they can be fine-tuned in the viewer afterwards
+  const applyFixed = (value: string) => {
+    setPagesPerStudent(value);
+    const perStudent = parseInt(value);
+    if (!(perStudent > 0)) return;
+    const fixedStarts = new Set<number>();
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber += perStudent) {
+      fixedStarts.add(pageNumber);
+    }
+    setStarts(fixedStarts);
+    setSkip(new Set());
+  };
+
+  const applySeparators = () => {
+    setStarts(new Set(blankPages.map(pageNumber => pageNumber + 1).filter(pageNumber => pageNumber <= pageCount)));
+    setSkip(new Set(blankPages));
+  };
+
+  const handleModeChange = (newMode: SplitMode | null) => {
+    if (!newMode) return;
+    setMode(newMode);
+    if (newMode === 'fixed') {
+      applyFixed(pagesPerStudent);
+    } else if (newMode === 'separator') {
+      applySeparators();
+    }
+  };
+
+  const segments = useMemo(() => toSegments(pageCount, starts, skip), [pageCount, starts, skip]);
+  const studentOfCurrentPage = segments.findIndex(segment => segment.includes(currentPage));
+
+  const handleSplit = async () => {
+    setIsSplitting(true);
+    setError('');
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/batch/split'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ starts: Array.from(starts), skip: Array.from(skip) })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to split batch PDF');
+        return;
+      }
+      onComplete(result.totalStudents);
+    } catch (error) {
+      console.error('Batch split error:', error);
+      setError('Failed to split batch PDF');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  if (!pdfData) {
+    return (
+      <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2, minHeight: 400, justifyContent: 'center' }}>
+        {error ? <Alert severity="error">{error}</Alert> : <CircularProgress size={60} />}
+      </Box>
+    );
+  }
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12} lg={8}>
+        <PDFViewer
+          pdfData={pdfData}
+          currentPage={currentPage}
+          totalPages={pageCount}
+          onPageChange={setCurrentPage}
+          pageLabels={{}}
+          onPageLabel={() => undefined}
+          onRemovePageLabel={() => undefined}
+          scale={scale}
+          onScaleChange={setScale}
+        />
+      </Grid>
+
+      <Grid item xs={12} lg={4}>
+        <Paper sx={{ p: 4, border: '1px solid #f1f5f9' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <CallSplit sx={{ color: '#6366f1' }} />
+            <Typography variant="h6" sx={{ color: '#1e293b', fontWeight: 600 }}>
+              Split Batch Scan
+            </Typography>
+          </Box>
+
+          <Typography variant="body2" color="text.secondary" paragraph>
+            The scan has {pageCount} pages. Choose how to find where each student's exam starts,
+            then check the result page by page.
+          </Typography>
+
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            onChange={(_, newMode) => handleModeChange(newMode)}
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          >
+            <ToggleButton value="fixed">Fixed pages</ToggleButton>
+            <ToggleButton value="separator">Separators</ToggleButton>
+            <ToggleButton value="manual">Manual</ToggleButton>
+          </ToggleButtonGroup>
+
+          {mode === 'fixed' && (
+            <TextField
+              label="Pages per student"
+              size="small"
+              type="number"
+              value={pagesPerStudent}
+              onChange={(e) => applyFixed(e.target.value)}
+              inputProps={{ min: 1 }}
+              fullWidth
+              sx={{ mb: 2 }}
+            />
+          )}
+          {mode === 'separator' && (
+            <Alert severity={blankPages.length > 0 ? 'info' : 'warning'} sx={{ mb: 2 }}>
+              {blankPages.length > 0
+                ? `Found ${blankPages.length} blank pages. Each one is dropped and the next page starts a new student.`
+                : 'No blank separator pages found - mark the students by hand instead.'}
+            </Alert>
+          )}
+          {mode === 'manual' && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Go to the first page of each student and mark it below.
+            </Typography>
+          )}
+
+          {/* Fine-tune the current page in any mode */}
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <Button
+              variant={starts.has(currentPage) || currentPage === 1 ? 'contained' : 'outlined'}
+              size="small"
+              startIcon={<PersonAdd />}
+              onClick={() => setStarts(prev => toggle(prev, currentPage))}
+              disabled={currentPage === 1}
+              sx={{ flexGrow: 1, textTransform: 'none' }}
+            >
+              New student starts here
+            </Button>
+            <Button
+              variant={skip.has(currentPage) ? 'contained' : 'outlined'}
+              color="inherit"
+              size="small"
+              startIcon={<LayersClear />}
+              onClick={() => setSkip(prev => toggle(prev, currentPage))}
+              sx={{ textTransform: 'none' }}
+            >
+              Skip page
+            </Button>
+          </Box>
+
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            {skip.has(currentPage)
+              ? `Page ${currentPage} is skipped`
+              : `Page ${currentPage} belongs to student ${studentOfCurrentPage + 1}`}
+          </Typography>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, maxHeight: 240, overflow: 'auto', mb: 2 }}>
+            {segments.map((segment, index) => (
+              <Chip
+                key={segment[0]}
+                label={`${index + 1}: p. ${segment[0]}${segment.length > 1 ? `–${segment[segment.length - 1]}` : ''}`}
+                size="small"
+                color={index === studentOfCurrentPage ? 'primary' : 'default'}
+                onClick={() => setCurrentPage(segment[0])}
+              />
+            ))}
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Button
+            variant="contained"
+            size="large"
+            fullWidth
+            onClick={handleSplit}
+            disabled={isSplitting || segments.length === 0}
+            startIcon={isSplitting ? <CircularProgress size={20} color="inherit" /> : <CallSplit />}
+          >
+            Split into {segments.length} students
+          </Button>
+        </Paper>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default BatchSplitPage;
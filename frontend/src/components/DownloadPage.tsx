@@ -13,29 +13,44 @@ import {
   Grid,
   Alert,
   Chip,
-  Divider
+  Divider,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress
 } from '@mui/material';
 import { 
   Download, 
   PictureAsPdf, 
   CheckCircle, 
   Refresh,
-  Assignment
+  Assignment,
+  VpnKey,
+  Grading,
+  FactCheck
 } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+import GradedReturnPanel from './GradedReturnPanel';
+import { sortProblemIds } from '../utils/problemIds';
 
 interface DownloadPageProps {
-  problems: number[];
+  sessionId: string;
+  problems: string[];
+  anonymized: boolean;
+  onOpenGrading: () => void;
+  onEditLabels: () => void;
   onReset: () => void;
 }
 
-const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
-  const [downloadingProblems, setDownloadingProblems] = useState<Set<number>>(new Set());
+const DownloadPage: React.FC<DownloadPageProps> = ({ sessionId, problems, anonymized, onOpenGrading, onEditLabels, onReset }) => {
+  const [downloadingProblems, setDownloadingProblems] = useState<Set<string>>(new Set());
+  const [isDownloadingAll, setIsDownloadingAll] = useState(false);
+  const [includeManifest, setIncludeManifest] = useState(false);
 
-  const handleDownload = async (problemId: number) => {
+  const handleDownload = async (problemId: string) => {
     setDownloadingProblems(prev => new Set(prev).add(problemId));
     
     try {
-      const response = await fetch(`/api/download/${problemId}`);
+      const response = await fetch(sessionApiUrl(sessionId, `/download/${encodeURIComponent(problemId)}`));
       
       if (response.ok) {
         // Create download link
@@ -62,12 +77,51 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
     }
   };
 
+  const handleDownloadKey = async () => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/anonymization-key'));
+      
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'Anonymization_Key.csv';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+      } else {
+        console.error('Key download failed:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Key download error:', error);
+    }
+  };
+
   const handleDownloadAll = async () => {
-    // Download all problems sequentially to avoid overwhelming the browser
-    for (const problemId of problems.sort((a, b) => a - b)) {
-      await handleDownload(problemId);
-      // Small delay between downloads
-      await new Promise(resolve => setTimeout(resolve, 500));
+    // One zip instead of one download per problem, which browsers block after a few files
+    setIsDownloadingAll(true);
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, `/download-all?manifest=${includeManifest}`));
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'Problem_PDFs.zip';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+      } else {
+        console.error('Download all failed:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Download all error:', error);
+    } finally {
+      setIsDownloadingAll(false);
     }
   };
 
@@ -112,12 +166,13 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
               organized and labeled for efficient grading.
             </Typography>
 
-            <Box sx={{ mb: 3 }}>
+            <Box sx={{ mb: 3, display: 'flex', alignItems: 'center', flexWrap: 'wrap' }}>
               <Button
                 variant="contained"
                 size="large"
                 onClick={handleDownloadAll}
-                startIcon={<Download />}
+                disabled={isDownloadingAll}
+                startIcon={isDownloadingAll ? <CircularProgress size={20} color="inherit" /> : <Download />}
                 sx={{ 
                   mr: 2,
                   py: 1.5,
@@ -128,8 +183,17 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
                   }
                 }}
               >
-                Download All Problems
+                Download All Problems (zip)
               </Button>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={includeManifest}
+                    onChange={(e) => setIncludeManifest(e.target.checked)}
+                  />
+                }
+                label="Include page manifest (CSV)"
+              />
             </Box>
 
             <Divider sx={{ mb: 3 }} />
@@ -140,7 +204,7 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
             </Typography>
             
             <List>
-              {problems.sort((a, b) => a - b).map((problemId) => (
+              {sortProblemIds(problems).map((problemId) => (
                 <ListItem
                   key={problemId}
                   sx={{
@@ -170,6 +234,8 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
               ))}
             </List>
           </Paper>
+
+          <GradedReturnPanel sessionId={sessionId} />
         </Grid>
 
         <Grid item xs={12} md={4}>
@@ -189,6 +255,64 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
             </Box>
           </Paper>
 
+          {/* Score Entry */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Scores
+            </Typography>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Enter points per student and problem, then export the gradebook as CSV or XLSX.
+            </Typography>
+            <Button
+              variant="outlined"
+              startIcon={<Grading />}
+              onClick={onOpenGrading}
+              fullWidth
+            >
+              Enter Scores
+            </Button>
+          </Paper>
+
+          {/* Relabeling */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Fix Labels
+            </Typography>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Found a page in the wrong problem? Relabel the student and create the problem PDFs again.
+              Graded PDFs of problems that didn't change are kept.
+            </Typography>
+            <Button
+              variant="outlined"
+              startIcon={<FactCheck />}
+              onClick={onEditLabels}
+              fullWidth
+            >
+              Back to Review
+            </Button>
+          </Paper>
+
+          {/* Blind Grading Key */}
+          {anonymized && (
+            <Paper sx={{ p: 3, mb: 3, border: 1, borderColor: 'primary.light' }}>
+              <Typography variant="h6" gutterBottom>
+                Blind Grading
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Problem PDFs only show anonymous codes, and students are in random order.
+                Keep the key away from graders - it maps codes back to student names.
+              </Typography>
+              <Button
+                variant="outlined"
+                startIcon={<VpnKey />}
+                onClick={handleDownloadKey}
+                fullWidth
+              >
+                Download Key (CSV)
+              </Button>
+            </Paper>
+          )}
+
           {/* Instructions */}
           <Paper sx={{ p: 3, mb: 3 }}>
             <Typography variant="h6" gutterBottom>
@@ -203,9 +327,12 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
             <Typography variant="body2" paragraph>
               3. Graders can focus on one problem across all students
             </Typography>
-            <Typography variant="body2">
+            <Typography variant="body2" paragraph>
               4. Ensure consistent and fair grading!
             </Typography>
+            <Typography variant="body2">
+              5. Upload the graded PDFs to send each student their own exam back
+            </Typography>
           </Paper>
 
           {/* Reset Section */}
@@ -214,7 +341,7 @@ const DownloadPage: React.FC<DownloadPageProps> = ({ problems, onReset }) => {
               Start New Session
             </Typography>
             <Typography variant="body2" color="text.secondary" paragraph>
-              Want to process a different set of exams? Reset the application to start over.
+              Done with this exam? Resetting deletes this session and its uploaded PDFs. Other sessions are not affected.
             </Typography>
             <Button
               variant="outlined"
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { ListAlt, Add, Delete, PlayArrow, ArrowBack } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+import { normalizeProblemId } from '../utils/problemIds';
+import RosterPanel from './RosterPanel';
+
+export interface ExamProblem {
+  id: string;
+  title: string;
+  maxPoints: number | null;
+}
+
+// Rows are edited as text and only validated when saving
+interface ProblemRow {
+  id: string;
+  title: string;
+  maxPoints: string;
+}
+
+interface ExamDefinitionPageProps {
+  sessionId: string;
+  onComplete: () => void;
+  onCancel?: () => void; // Shown when editing the definition in the middle of sorting
+}
+
+const toRow = (problem: ExamProblem): ProblemRow => ({
+  id: problem.id,
+  title: problem.title,
+  maxPoints: problem.maxPoints !== null ? String(problem.maxPoints) : ''
+});
+
+// Guess the next ID from the last row: 3 -> 4, 3a -> 3b, 2.3 -> 2.4
+const nextProblemId = (rows: ProblemRow[]) => {
+  const last = rows.length > 0 ? rows[rows.length - 1].id.trim() : '';
+  if (!last) return String(rows.length + 1);
+  const numberMatch = last.match(/^(.*?)(\d+)$/);
+  if (numberMatch) return numberMatch[1] + (parseInt(numberMatch[2]) + 1);
+  const letterMatch = last.match(/^(.*?)([a-y])$/i);
+  if (letterMatch) return letterMatch[1] + String.fromCharCode(letterMatch[2].charCodeAt(0) + 1);
+  return '';
+};
+
+const ExamDefinitionPage: React.FC<ExamDefinitionPageProps> = ({ sessionId, onComplete, onCancel }) => {
+  const [rows, setRows] = useState<ProblemRow[]>([]);
+  const [problemCount, setProblemCount] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadDefinition = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, '/exam'));
+        const result = await response.json();
+        const problems: ExamProblem[] = result.problems || [];
+        setRows(problems.length > 0 ? problems.map(toRow) : [{ id: '1', title: '', maxPoints: '' }]);
+      } catch (error) {
+        console.error('Failed to load exam definition:', error);
+        setError('Failed to load exam definition');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadDefinition();
+  }, [sessionId]);
+
+  const updateRow = (index: number, changes: Partial<ProblemRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  // Replace the list with problems 1..N, keeping titles and points of IDs that already exist
+  const handleGenerate = () => {
+    const count = parseInt(problemCount);
+    if (!(count > 0 && count <= 100)) return;
+    setRows(prev => Array.from({ length: count }, (_, i) => {
+      const id = String(i + 1);
+      return prev.find(row => row.id.trim() === id) || { id, title: '', maxPoints: '' };
+    }));
+    setProblemCount('');
+  };
+
+  const handleSave = async () => {
+    const invalidRow = rows.find(row => !normalizeProblemId(row.id));
+    if (invalidRow) {
+      setError(`"${invalidRow.id}" is not a valid problem ID - use IDs like 3, 3a or 2.3`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/exam'), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          problems: rows.map(row => ({ id: row.id, title: row.title, maxPoints: row.maxPoints.trim() }))
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to save exam definition');
+        return;
+      }
+      onComplete();
+    } catch (error) {
+      console.error('Save exam definition error:', error);
+      setError('Failed to save exam definition');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 400 }}>
+        <CircularProgress size={60} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 900, mx: 'auto' }}>
+      <Paper sx={{ p: 4, border: '1px solid #f1f5f9' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <ListAlt sx={{ color: '#6366f1', fontSize: 28 }} />
+          <Typography variant="h5" sx={{ color: '#1e293b', fontWeight: 600 }}>
+            Exam Problems
+          </Typography>
+        </Box>
+
+        <Typography variant="body1" color="text.secondary" paragraph>
+          List the problems of this exam. Only these problems can be used when labeling pages,
+          so a typo can't create a stray problem PDF. Use IDs like 3, 3a or 2.3 for sub-problems.
+        </Typography>
+
+        {/* Quick fill for exams with plain numbered problems */}
+        <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+          <TextField
+            label="Number of problems"
+            size="small"
+            type="number"
+            value={problemCount}
+            onChange={(e) => setProblemCount(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleGenerate();
+            }}
+            inputProps={{ min: 1, max: 100 }}
+            sx={{ width: 200 }}
+          />
+          <Button variant="outlined" onClick={handleGenerate} disabled={!(parseInt(problemCount) > 0)}>
+            Fill 1 to N
+          </Button>
+        </Box>
+
+        {rows.map((row, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1, mb: 1.5, alignItems: 'center' }}>
+            <TextField
+              label="ID"
+              size="small"
+              value={row.id}
+              onChange={(e) => updateRow(index, { id: e.target.value })}
+              error={row.id !== '' && !normalizeProblemId(row.id)}
+              sx={{ width: 100 }}
+            />
+            <TextField
+              label="Title (optional)"
+              size="small"
+              value={row.title}
+              onChange={(e) => updateRow(index, { title: e.target.value })}
+              sx={{ flexGrow: 1 }}
+            />
+            <TextField
+              label="Max points"
+              size="small"
+              value={row.maxPoints}
+              onChange={(e) => updateRow(index, { maxPoints: e.target.value })}
+              inputProps={{ inputMode: 'decimal' }}
+              sx={{ width: 120 }}
+            />
+            <IconButton
+              onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+              disabled={rows.length === 1}
+              aria-label="Remove problem"
+            >
+              <Delete />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Button
+          startIcon={<Add />}
+          onClick={() => setRows(prev => [...prev, { id: nextProblemId(prev), title: '', maxPoints: '' }])}
+          sx={{ mb: 3 }}
+        >
+          Add Problem
+        </Button>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          {onCancel && (
+            <Button variant="outlined" startIcon={<ArrowBack />} onClick={onCancel} disabled={isSaving}>
+              Back
+            </Button>
+          )}
+          <Button
+            variant="contained"
+            size="large"
+            onClick={handleSave}
+            disabled={isSaving || rows.length === 0}
+            startIcon={isSaving ? <CircularProgress size={20} /> : <PlayArrow />}
+            sx={{
+              py: 1.5,
+              px: 4,
+              background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)',
+              '&:hover': {
+                background: 'linear-gradient(135deg, #4f46e5 0%, #7c3aed 100%)',
+              }
+            }}
+          >
+            {onCancel ? 'Save Problems' : 'Save & Start Sorting'}
+          </Button>
+        </Box>
+      </Paper>
+
+      <RosterPanel sessionId={sessionId} />
+    </Box>
+  );
+};
+
+export default ExamDefinitionPage;
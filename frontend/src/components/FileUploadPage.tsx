@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   Box,
   Paper,
@@ -11,32 +11,93 @@ import {
   Alert,
   Card,
   CardContent,
-  Tooltip
+  Tooltip,
+  TextField,
+  IconButton,
+  Divider,
+  FormControlLabel,
+  Checkbox,
+  Chip
 } from '@mui/material';
-import { CloudUpload, Description, AutoAwesome } from '@mui/icons-material';
+import { CloudUpload, Description, AutoAwesome, FolderOpen, Delete, PlayArrow } from '@mui/icons-material';
 import styles from './FileUploadPage.module.css';
+import { sessionApiUrl } from '../utils/api';
+
+interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  anonymize: boolean;
+  totalStudents: number;
+  labeledStudents: number;
+  hasBatch: boolean;
+}
+
+// Student submissions can be PDFs, photos/scans or zips of those - the backend converts them
+const SUBMISSION_EXTENSIONS = /\.(pdf|zip|jpe?g|png|tiff?)$/i;
+const SUBMISSION_ACCEPT = '.pdf,.zip,.jpg,.jpeg,.png,.tif,.tiff';
 
 interface FileUploadPageProps {
-  onUploadComplete: (totalStudents: number) => void;
+  onUploadComplete: (sessionId: string, sessionName: string, totalStudents: number) => void;
+  onBatchUploaded: (sessionId: string, sessionName: string) => void; // A single scan of the whole class, split next
+  onResumeSession: (sessionId: string) => void;
 }
 
-const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) => {
+const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete, onBatchUploaded, onResumeSession }) => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [isBatch, setIsBatch] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [error, setError] = useState<string>('');
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+  const [uploadResult, setUploadResult] = useState<{ sessionId: string; totalStudents: number } | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionName, setSessionName] = useState('');
+  const [anonymize, setAnonymize] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sessions');
+      const result = await response.json();
+      setSessions(result.sessions || []);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleDeleteSession = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete session "${session.name}" and all of its uploaded PDFs?`)) {
+      return;
+    }
+
+    try {
+      await fetch(sessionApiUrl(session.id, ''), { method: 'DELETE' });
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+      setError('Failed to delete session');
+    }
+  };
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files) {
-      // Filter for PDF files only
-      const pdfFiles = Array.from(files).filter(file => file.type === 'application/pdf');
-      if (pdfFiles.length !== files.length) {
-        setError('Only PDF files are allowed. Non-PDF files have been filtered out.');
+      // The single-file picker is for one scan of the whole class, which has to be a PDF
+      const batch = !event.target.multiple;
+      const accepted = Array.from(files).filter(file => batch ? /\.pdf$/i.test(file.name) : SUBMISSION_EXTENSIONS.test(file.name));
+      if (accepted.length !== files.length) {
+        setError(batch
+          ? 'The batch scan has to be a PDF file.'
+          : 'Only PDFs, images (JPG, PNG, TIFF) and zip files are allowed. Other files have been filtered out.');
       } else {
         setError('');
       }
-      setSelectedFiles(pdfFiles);
+      setSelectedFiles(accepted);
+      setIsBatch(batch);
     }
   }, []);
 
@@ -46,20 +107,41 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
       return;
     }
 
+    if (!sessionName.trim()) {
+      setError('Please enter a name for this exam session');
+      return;
+    }
+
     setIsUploading(true);
     setUploadProgress(0);
     setError('');
 
+    let sessionId: string | null = null;
     try {
+      // Every upload starts a new named session so it never clobbers another exam
+      const sessionResponse = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ name: sessionName.trim(), anonymize })
+      });
+      const sessionResult = await sessionResponse.json();
+      if (!sessionResponse.ok) {
+        throw new Error(sessionResult.error || 'Failed to create session');
+      }
+      sessionId = sessionResult.session.id as string;
+
       const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
       console.log(`Starting upload of ${selectedFiles.length} files, total size: ${(totalSize / 1024 / 1024).toFixed(2)}MB`);
 
       const formData = new FormData();
       selectedFiles.forEach(file => {
-        formData.append('pdfs', file);
+        // Send the folder path along - photos in the same student folder become one student
+        formData.append(isBatch ? 'batch' : 'pdfs', file, file.webkitRelativePath || file.name);
       });
 
-      const response = await fetch('/api/upload', {
+      const response = await fetch(sessionApiUrl(sessionId, isBatch ? '/batch' : '/upload'), {
         method: 'POST',
         body: formData
       });
@@ -71,16 +153,29 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
 
       const result = await response.json();
       
-      if (result.success) {
+      if (result.success && isBatch) {
+        console.log(`Batch upload completed: ${result.pageCount} pages`);
+        onBatchUploaded(sessionId, sessionName.trim());
+      } else if (result.success && result.skipped?.length > 0) {
+        // Let the user see which files were left out before moving on
+        setUploadProgress(100);
+        setSkippedFiles(result.skipped);
+        setUploadResult({ sessionId, totalStudents: result.totalStudents });
+      } else if (result.success) {
         setUploadProgress(100);
         console.log(`Upload completed: ${result.totalStudents} students processed`);
-        setTimeout(() => onUploadComplete(result.totalStudents), 500); // Small delay to show 100% progress
+        const uploadedSessionId = sessionId;
+        setTimeout(() => onUploadComplete(uploadedSessionId, sessionName.trim(), result.totalStudents), 500); // Small delay to show 100% progress
       } else {
         setError(result.error || 'Upload failed');
       }
     } catch (error) {
       console.error('Upload error:', error);
       setError(error instanceof Error ? error.message : 'Failed to upload files. Please try again.');
+      // Don't leave an empty session behind when the upload itself failed
+      if (sessionId) {
+        fetch(sessionApiUrl(sessionId, ''), { method: 'DELETE' }).catch(() => undefined);
+      }
     } finally {
       setTimeout(() => {
         setIsUploading(false);
@@ -126,6 +221,52 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
         </Tooltip>
       </Box>
 
+      {sessions.length > 0 && (
+        <Paper sx={{ p: 4, mb: 3, border: '1px solid #f1f5f9' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <FolderOpen sx={{ color: '#6366f1' }} />
+            <Typography variant="h6" sx={{ color: '#1e293b', fontWeight: 600 }}>
+              Continue an Existing Session
+            </Typography>
+          </Box>
+          <List dense>
+            {sessions.map((session, index) => (
+              <React.Fragment key={session.id}>
+                {index > 0 && <Divider component="li" />}
+                <ListItem
+                  secondaryAction={
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<PlayArrow />}
+                        onClick={() => onResumeSession(session.id)}
+                        disabled={session.totalStudents === 0 && !session.hasBatch}
+                      >
+                        Open
+                      </Button>
+                      <IconButton size="small" onClick={() => handleDeleteSession(session)} aria-label={`Delete session ${session.name}`}>
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  }
+                >
+                  <ListItemText
+                    primary={
+                      <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {session.name}
+                        {session.anonymize && <Chip label="Blind" size="small" />}
+                      </Box>
+                    }
+                    secondary={`${session.labeledStudents} of ${session.totalStudents} students labeled · created ${new Date(session.createdAt).toLocaleString()}`}
+                  />
+                </ListItem>
+              </React.Fragment>
+            ))}
+          </List>
+        </Paper>
+      )}
+
       <Paper sx={{ p: 5, textAlign: 'center', mb: 3, border: '1px solid #f1f5f9' }}>
         <CloudUpload sx={{ fontSize: 64, color: '#a5b4fc', mb: 3 }} />
         
@@ -136,6 +277,8 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
         <Typography variant="body2" color="text.secondary" paragraph>
           Select the folder containing your exam PDFs. Each PDF should contain one student's complete exam.
           The browser will ask you to choose a folder - all PDF files in that folder will be uploaded.
+          Photos and scans (JPG, PNG, TIFF) work too: put each student's images in their own subfolder,
+          or upload the zip of submissions your LMS exports.
         </Typography>
 
         <Button
@@ -159,6 +302,40 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
             type="file"
             {...({ webkitdirectory: "" } as any)}
             multiple
+            accept={SUBMISSION_ACCEPT}
+            hidden
+            onChange={handleFileSelect}
+          />
+        </Button>
+        <Button
+          variant="outlined"
+          component="label"
+          size="large"
+          sx={{ mb: 3, ml: 2, py: 1.5 }}
+          disabled={isUploading}
+        >
+          Choose Files or Zip
+          <input
+            type="file"
+            multiple
+            accept={SUBMISSION_ACCEPT}
+            hidden
+            onChange={handleFileSelect}
+          />
+        </Button>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Scanned the whole class into one PDF? Upload it and split it into students in the next step.
+        </Typography>
+        <Button
+          variant="outlined"
+          component="label"
+          sx={{ mb: 3 }}
+          disabled={isUploading}
+        >
+          Choose Single Batch PDF
+          <input
+            type="file"
             accept=".pdf"
             hidden
             onChange={handleFileSelect}
@@ -168,7 +345,7 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
         {selectedFiles.length > 0 && (
           <Box sx={{ mt: 3 }}>
             <Typography variant="h6" gutterBottom>
-              Selected Files ({selectedFiles.length})
+              {isBatch ? 'Batch PDF to Split' : `Selected Files (${selectedFiles.length})`}
             </Typography>
             
             <Paper sx={{ maxHeight: 200, overflow: 'auto', mb: 3 }}>
@@ -185,11 +362,35 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
               </List>
             </Paper>
 
+            <TextField
+              label="Session Name"
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              required
+              fullWidth
+              placeholder="e.g. Linear Algebra - Final Exam 2024"
+              helperText="Used to find this exam again in the session list"
+              sx={{ mb: 1 }}
+              disabled={isUploading}
+            />
+
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={anonymize}
+                  onChange={(e) => setAnonymize(e.target.checked)}
+                  disabled={isUploading}
+                />
+              }
+              label="Blind grading - stamp anonymous codes instead of names and put students in random order"
+              sx={{ mb: 3, textAlign: 'left' }}
+            />
+
             <Button
               variant="contained"
               size="large"
               onClick={handleUpload}
-              disabled={isUploading}
+              disabled={isUploading || !sessionName.trim() || uploadResult !== null}
               sx={{ minWidth: 200 }}
             >
               {isUploading ? (
@@ -198,7 +399,7 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
                   {uploadProgress > 0 ? `Processing... ${uploadProgress}%` : 'Uploading...'}
                 </>
               ) : (
-                'Start Sorting Process'
+                isBatch ? 'Upload & Split' : 'Start Sorting Process'
               )}
             </Button>
           </Box>
@@ -209,6 +410,27 @@ const FileUploadPage: React.FC<FileUploadPageProps> = ({ onUploadComplete }) =>
             {error}
           </Alert>
         )}
+
+        {uploadResult && (
+          <Alert
+            severity="warning"
+            sx={{ mt: 2, textAlign: 'left' }}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => onUploadComplete(uploadResult.sessionId, sessionName.trim(), uploadResult.totalStudents)}
+              >
+                Continue
+              </Button>
+            }
+          >
+            Uploaded {uploadResult.totalStudents} students, but these files were skipped (unsupported or damaged):
+            {skippedFiles.map(file => (
+              <Typography key={file} variant="body2">{file}</Typography>
+            ))}
+          </Alert>
+        )}
       </Paper>
     </Box>
   );
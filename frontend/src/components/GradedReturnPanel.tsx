@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  Alert,
+  Chip,
+  CircularProgress
+} from '@mui/material';
+import { Upload, Download, Archive, AssignmentReturn } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+
+interface GradedProblem {
+  problem: string;
+  expectedPages: number;
+  uploaded: boolean;
+}
+
+interface GradedStudent {
+  id: number;
+  name: string;
+  ready: boolean;
+}
+
+interface GradedStatus {
+  problems: GradedProblem[];
+  students: GradedStudent[];
+  complete: boolean;
+}
+
+interface GradedReturnPanelProps {
+  sessionId: string;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+const GradedReturnPanel: React.FC<GradedReturnPanelProps> = ({ sessionId }) => {
+  const [status, setStatus] = useState<GradedStatus | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState('');
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/graded'));
+      setStatus(await response.json());
+    } catch (error) {
+      console.error('Failed to load graded status:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setError('');
+    setErrorDetails([]);
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('graded', file));
+
+      const response = await fetch(sessionApiUrl(sessionId, '/graded'), {
+        method: 'POST',
+        body: formData
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Upload failed');
+        setErrorDetails(result.details || []);
+      }
+    } catch (error) {
+      console.error('Graded upload error:', error);
+      setError('Upload failed');
+    } finally {
+      setIsUploading(false);
+      loadStatus();
+    }
+  };
+
+  const handleDownload = async (path: string, fileName: string) => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, path));
+      if (response.ok) {
+        downloadBlob(await response.blob(), fileName);
+      } else {
+        const result = await response.json();
+        setError(result.error || 'Download failed');
+      }
+    } catch (error) {
+      console.error('Graded download error:', error);
+      setError('Download failed');
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    await handleDownload('/graded/zip', 'Graded_Exams.zip');
+    setIsZipping(false);
+  };
+
+  if (!status || status.problems.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 4, mt: 3, border: '1px solid #f1f5f9' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <AssignmentReturn sx={{ color: '#6366f1', fontSize: 28 }} />
+        <Typography variant="h5" sx={{ color: '#1e293b', fontWeight: 600 }}>
+          Return Graded Exams
+        </Typography>
+      </Box>
+
+      <Typography variant="body1" color="text.secondary" paragraph>
+        Upload the annotated problem PDFs (keep the names, e.g. Problem_1.pdf, and don't add or remove pages).
+        Each student then gets their own exam back with the graded pages in the original order.
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        {status.problems.map(problem => (
+          <Chip
+            key={problem.problem}
+            label={`Problem ${problem.problem}`}
+            color={problem.uploaded ? 'success' : 'default'}
+            variant={problem.uploaded ? 'filled' : 'outlined'}
+            size="small"
+          />
+        ))}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={isUploading ? <CircularProgress size={18} /> : <Upload />}
+          disabled={isUploading}
+        >
+          Upload Graded PDFs
+          <input type="file" multiple accept=".pdf" hidden onChange={handleUpload} />
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={isZipping ? <CircularProgress size={18} color="inherit" /> : <Archive />}
+          onClick={handleDownloadZip}
+          disabled={!status.complete || isZipping}
+        >
+          Download All Students (zip)
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+          {errorDetails.map(detail => (
+            <Typography key={detail} variant="body2">{detail}</Typography>
+          ))}
+        </Alert>
+      )}
+
+      <List dense sx={{ maxHeight: 300, overflow: 'auto' }}>
+        {status.students.map(student => (
+          <ListItem key={student.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, mb: 1 }}>
+            <ListItemText
+              primary={student.name || `Student ${student.id}`}
+              secondary={student.ready ? 'Ready' : 'Waiting for graded PDFs'}
+            />
+            <Button
+              size="small"
+              startIcon={<Download />}
+              disabled={!student.ready}
+              onClick={() => handleDownload(`/graded/student/${student.id}`, `${student.id}_${student.name || 'Student'}_graded.pdf`)}
+            >
+              Download
+            </Button>
+          </ListItem>
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+export default GradedReturnPanel;
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TextField,
+  Alert
+} from '@mui/material';
+import { ArrowBack, Download, Grading } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+
+interface GradeProblem {
+  problem: string;
+  title: string;
+  maxPoints: number | null;
+}
+
+interface GradeStudent {
+  id: number;
+  name: string;
+  studentNumber: string;
+  scores: { [problemId: string]: number };
+}
+
+interface GradingPageProps {
+  sessionId: string;
+  onBack: () => void;
+}
+
+const cellKey = (studentId: number, problem: string) => `${studentId}:${problem}`;
+
+const GradingPage: React.FC<GradingPageProps> = ({ sessionId, onBack }) => {
+  const [problems, setProblems] = useState<GradeProblem[]>([]);
+  const [students, setStudents] = useState<GradeStudent[]>([]);
+  // Cells being edited are kept as text so a half-typed "7," isn't reformatted while typing
+  const [drafts, setDrafts] = useState<{ [key: string]: string }>({});
+  const [error, setError] = useState('');
+
+  const loadGrades = useCallback(async () => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/grades'));
+      const result = await response.json();
+      setProblems(result.problems);
+      setStudents(result.students);
+    } catch (error) {
+      console.error('Failed to load grades:', error);
+      setError('Failed to load grades');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadGrades();
+  }, [loadGrades]);
+
+  const putJson = async (path: string, body: object) => {
+    const response = await fetch(sessionApiUrl(sessionId, path), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save');
+    }
+    return result;
+  };
+
+  const saveMaxPoints = async (problem: string, value: string) => {
+    try {
+      const result = await putJson('/grades/max-points', { problem, maxPoints: value.trim() });
+      setProblems(prev => prev.map(p => p.problem === problem ? { ...p, maxPoints: result.maxPoints } : p));
+      setError('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save max points');
+    }
+  };
+
+  const saveScore = async (studentId: number, problem: string) => {
+    const key = cellKey(studentId, problem);
+    const value = drafts[key];
+    if (value === undefined) return;
+
+    try {
+      const result = await putJson(`/grades/${studentId}`, { problem, score: value.trim() });
+      setStudents(prev => prev.map(s => {
+        if (s.id !== studentId) return s;
+        const scores = { ...s.scores };
+        if (result.score === null) {
+          delete scores[problem];
+        } else {
+          scores[problem] = result.score;
+        }
+        return { ...s, scores };
+      }));
+      setDrafts(prev => {
+        const newDrafts = { ...prev };
+        delete newDrafts[key];
+        return newDrafts;
+      });
+      setError('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save score');
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, `/gradebook?format=${format}`));
+      if (!response.ok) {
+        setError('Export failed');
+        return;
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Gradebook.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export error:', error);
+      setError('Export failed');
+    }
+  };
+
+  const totalFor = (student: GradeStudent) =>
+    problems.reduce((sum, p) => sum + (student.scores[p.problem] ?? 0), 0);
+
+  const maxTotal = problems.every(p => p.maxPoints !== null)
+    ? problems.reduce((sum, p) => sum + (p.maxPoints ?? 0), 0)
+    : null;
+
+  return (
+    <Box sx={{ maxWidth: 1400, mx: 'auto' }}>
+      <Paper sx={{ p: 4, border: '1px solid #f1f5f9' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+          <Grading sx={{ color: '#6366f1', fontSize: 28 }} />
+          <Typography variant="h5" sx={{ color: '#1e293b', fontWeight: 600, flexGrow: 1 }}>
+            Scores
+          </Typography>
+          <Button variant="outlined" startIcon={<ArrowBack />} onClick={onBack}>
+            Back to Downloads
+          </Button>
+          <Button variant="outlined" startIcon={<Download />} onClick={() => handleExport('csv')}>
+            Export CSV
+          </Button>
+          <Button variant="contained" startIcon={<Download />} onClick={() => handleExport('xlsx')}>
+            Export XLSX
+          </Button>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Set the max points of each problem in the header row, then enter the points per student.
+          Scores are saved as soon as you leave a cell; leave a cell empty if it hasn't been graded yet.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TableContainer sx={{ maxHeight: '70vh' }}>
+          <Table stickyHeader size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Nr</TableCell>
+                <TableCell>Student</TableCell>
+                {problems.map(p => (
+                  <TableCell key={p.problem} align="center">
+                    <Typography variant="subtitle2">Problem {p.problem}</Typography>
+                    {p.title && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {p.title}
+                      </Typography>
+                    )}
+                    <TextField
+                      size="small"
+                      placeholder="max"
+                      defaultValue={p.maxPoints ?? ''}
+                      onBlur={(e) => saveMaxPoints(p.problem, e.target.value)}
+                      inputProps={{ inputMode: 'decimal', style: { textAlign: 'center' } }}
+                      sx={{ width: 80 }}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell align="center">
+                  Total{maxTotal !== null && ` / ${maxTotal}`}
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {students.map(student => (
+                <TableRow key={student.id} hover>
+                  <TableCell>{student.studentNumber}</TableCell>
+                  <TableCell>{student.name || <em>Unnamed</em>}</TableCell>
+                  {problems.map(p => {
+                    const key = cellKey(student.id, p.problem);
+                    const score = student.scores[p.problem];
+                    const value = drafts[key] ?? (score !== undefined ? String(score) : '');
+                    return (
+                      <TableCell key={p.problem} align="center">
+                        <TextField
+                          size="small"
+                          value={value}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                          onBlur={() => saveScore(student.id, p.problem)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              (e.target as HTMLInputElement).blur();
+                            }
+                          }}
+                          inputProps={{ inputMode: 'decimal', style: { textAlign: 'center' } }}
+                          sx={{ width: 80 }}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell align="center" sx={{ fontWeight: 600 }}>
+                    {totalFor(student)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Box>
+  );
+};
+
+export default GradingPage;
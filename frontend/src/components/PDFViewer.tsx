@@ -1,7 +1,22 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Box, IconButton, Typography, Paper, Chip } from '@mui/material';
-import { NavigateBefore, NavigateNext, ZoomIn, ZoomOut } from '@mui/icons-material';
+import { Box, IconButton, Typography, Paper, Chip, Menu, MenuItem } from '@mui/material';
+import { Close, NavigateBefore, NavigateNext, ZoomIn, ZoomOut } from '@mui/icons-material';
 import { pdfjsLib } from '../utils/pdfConfig';
+import { NOT_A_PROBLEM } from '../utils/problemIds';
+
+// Part of a page that only goes to one problem - normalized 0-1 coordinates from the top left of the page
+export interface PageRegion {
+  problemId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type RegionRect = Omit<PageRegion, 'problemId'>;
+
+// Smaller drags are treated as clicks, not as regions
+const MIN_REGION_SIZE = 0.02;
 
 interface PDFViewerProps {
   pdfData: string; // base64 encoded PDF
@@ -9,9 +24,14 @@ interface PDFViewerProps {
   totalPages: number;
   onPageChange: (page: number) => void;
   onTotalPagesChange?: (totalPages: number) => void; // New prop to communicate total pages
-  pageLabels: { [pageNumber: number]: number[] };
-  onPageLabel: (pageNumber: number, problemNumber: number) => void;
-  onRemovePageLabel: (pageNumber: number, problemNumber: number) => void;
+  pageLabels: { [pageNumber: number]: string[] };
+  onPageLabel: (pageNumber: number, problemId: string) => void;
+  onRemovePageLabel: (pageNumber: number, problemId: string) => void;
+  // Region drawing is only enabled when onAddRegion is given
+  pageRegions?: { [pageNumber: number]: PageRegion[] };
+  regionProblems?: string[]; // Problems offered for a newly drawn region
+  onAddRegion?: (pageNumber: number, region: PageRegion) => void;
+  onRemoveRegion?: (pageNumber: number, problemId: string) => void;
   scale: number;
   onScaleChange: (scale: number) => void;
 }
@@ -25,12 +45,21 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
   pageLabels,
   onPageLabel,
   onRemovePageLabel,
+  pageRegions = {},
+  regionProblems = [],
+  onAddRegion,
+  onRemoveRegion,
   scale,
   onScaleChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
   const [pdfDoc, setPdfDoc] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Region being dragged out on the page, and a finished one waiting for its problem
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draftRegion, setDraftRegion] = useState<RegionRect | null>(null);
+  const [pendingRegion, setPendingRegion] = useState<{ rect: RegionRect; left: number; top: number } | null>(null);
 
   useEffect(() => {
     const loadPDF = async () => {
@@ -111,6 +140,55 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   }, [pdfDoc, currentPage, scale]);
 
+  // Pointer position as a fraction of the page - the bounding box includes the zoom transform
+  const toPagePoint = (event: React.PointerEvent) => {
+    const rect = pageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1)
+    };
+  };
+
+  const toRect = (a: { x: number; y: number }, b: { x: number; y: number }): RegionRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y)
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!onAddRegion || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(toPagePoint(event));
+    setDraftRegion(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) {
+      setDraftRegion(toRect(dragStart, toPagePoint(event)));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const rect = toRect(dragStart, toPagePoint(event));
+    setDragStart(null);
+    if (rect.width < MIN_REGION_SIZE || rect.height < MIN_REGION_SIZE) {
+      setDraftRegion(null);
+      return;
+    }
+    setDraftRegion(rect);
+    setPendingRegion({ rect, left: event.clientX, top: event.clientY });
+  };
+
+  const handleAssignRegion = (problemId: string | null) => {
+    if (pendingRegion && problemId && onAddRegion) {
+      onAddRegion(currentPage, { problemId, ...pendingRegion.rect });
+    }
+    setPendingRegion(null);
+    setDraftRegion(null);
+  };
+
   const handlePrevPage = () => {
     if (currentPage > 1) {
       onPageChange(currentPage - 1);
@@ -161,8 +239,8 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
   }
 
   const currentProblems = pageLabels[currentPage] || [];
+  const currentRegions = pageRegions[currentPage] || [];
   const actualTotalPages = pdfDoc?.numPages || totalPages;
-  const NOT_A_PROBLEM = -1;
 
   return (
     <Box>
@@ -262,19 +340,92 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
           backgroundColor: '#fefefe'
         }}
       >
-        <canvas 
-          ref={canvasRef} 
-          style={{ 
-            border: '1px solid #e2e8f0',
-            borderRadius: '8px',
+        {/* Drag on the page to cut out a region for a single problem */}
+        <Box
+          ref={pageRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          sx={{
+            position: 'relative',
+            alignSelf: 'flex-start',
             maxWidth: '100%',
-            height: 'auto',
+            lineHeight: 0,
+            cursor: onAddRegion ? 'crosshair' : 'default',
+            userSelect: 'none',
+            touchAction: 'none',
             transform: `scale(${scale})`,
-            transformOrigin: 'top left',
-            objectFit: 'contain',
-            boxShadow: '0 4px 12px 0 rgb(0 0 0 / 0.05)'
-          }} 
-        />
+            transformOrigin: 'top left'
+          }}
+        >
+          <canvas 
+            ref={canvasRef} 
+            style={{ 
+              border: '1px solid #e2e8f0',
+              borderRadius: '8px',
+              maxWidth: '100%',
+              height: 'auto',
+              objectFit: 'contain',
+              boxShadow: '0 4px 12px 0 rgb(0 0 0 / 0.05)'
+            }} 
+          />
+
+          {currentRegions.map((region) => (
+            <Box
+              key={region.problemId}
+              sx={{
+                position: 'absolute',
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+                border: '2px solid #6366f1',
+                backgroundColor: 'rgba(99, 102, 241, 0.08)',
+                boxSizing: 'border-box',
+                pointerEvents: 'none'
+              }}
+            >
+              <Chip
+                size="small"
+                label={`Problem ${region.problemId}`}
+                onPointerDown={(e) => e.stopPropagation()}
+                onDelete={onRemoveRegion ? () => onRemoveRegion(currentPage, region.problemId) : undefined}
+                deleteIcon={<Close sx={{ color: 'white !important' }} />}
+                sx={{ m: 0.5, backgroundColor: '#6366f1', color: 'white', fontWeight: 500, pointerEvents: 'auto' }}
+              />
+            </Box>
+          ))}
+
+          {draftRegion && (
+            <Box
+              sx={{
+                position: 'absolute',
+                left: `${draftRegion.x * 100}%`,
+                top: `${draftRegion.y * 100}%`,
+                width: `${draftRegion.width * 100}%`,
+                height: `${draftRegion.height * 100}%`,
+                border: '2px dashed #6366f1',
+                boxSizing: 'border-box',
+                pointerEvents: 'none'
+              }}
+            />
+          )}
+        </Box>
+
+        <Menu
+          open={pendingRegion !== null}
+          onClose={() => handleAssignRegion(null)}
+          anchorReference="anchorPosition"
+          anchorPosition={pendingRegion ? { left: pendingRegion.left, top: pendingRegion.top } : undefined}
+        >
+          <MenuItem disabled dense>Region belongs to</MenuItem>
+          {regionProblems.map((problemId) => (
+            <MenuItem key={problemId} onClick={() => handleAssignRegion(problemId)}>
+              Problem {problemId}
+              {currentRegions.some(r => r.problemId === problemId) ? ' (replace region)' : ''}
+            </MenuItem>
+          ))}
+        </Menu>
       </Paper>
     </Box>
   );
@@ -8,37 +8,47 @@ import {
   TextField,
   Chip,
   Stack,
-  Grid
+  Grid,
+  Tooltip
 } from '@mui/material';
-import { Label, Clear } from '@mui/icons-material';
+import { Label, Clear, Edit } from '@mui/icons-material';
+import { NOT_A_PROBLEM, normalizeProblemId } from '../utils/problemIds';
+import { ExamProblem } from './ExamDefinitionPage';
 
 interface PageLabelerProps {
   currentPage: number;
-  pageLabels: { [pageNumber: number]: number[] };
-  onPageLabel: (pageNumber: number, problemNumber: number) => void;
-  onRemovePageLabel: (pageNumber: number, problemNumber: number) => void;
+  pageLabels: { [pageNumber: number]: string[] };
+  problems: ExamProblem[]; // Exam definition - empty for sessions created without one
+  onPageLabel: (pageNumber: number, problemId: string) => void;
+  onRemovePageLabel: (pageNumber: number, problemId: string) => void;
+  onEditProblems?: () => void;
 }
 
 const PageLabeler: React.FC<PageLabelerProps> = ({
   currentPage,
   pageLabels,
+  problems,
   onPageLabel,
-  onRemovePageLabel
+  onRemovePageLabel,
+  onEditProblems
 }) => {
   const [customProblem, setCustomProblem] = useState('');
   
-  // Quick problem buttons (1-15 should cover most exams)
-  const quickProblems = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+  // Quick problem buttons come from the exam definition; without one, 1-15 should cover most exams
+  const quickProblems = problems.length > 0
+    ? problems.map(p => p.id)
+    : Array.from({ length: 15 }, (_, i) => String(i + 1));
   const currentProblems = pageLabels[currentPage] || [];
-  const NOT_A_PROBLEM = -1;
+  // Sub-problems like 3a or 2.3 are entered in the custom field
+  const customProblems = currentProblems.filter(p => p !== NOT_A_PROBLEM && !quickProblems.includes(p));
 
-  const handleQuickLabel = (problemNumber: number) => {
-    if (currentProblems.includes(problemNumber)) {
+  const handleQuickLabel = (problemId: string) => {
+    if (currentProblems.includes(problemId)) {
       // If already labeled, remove it
-      onRemovePageLabel(currentPage, problemNumber);
+      onRemovePageLabel(currentPage, problemId);
     } else {
       // If not labeled, add it
-      onPageLabel(currentPage, problemNumber);
+      onPageLabel(currentPage, problemId);
     }
   };
 
@@ -52,10 +62,20 @@ const PageLabeler: React.FC<PageLabelerProps> = ({
     }
   };
 
+  // With an exam definition only its problems can be entered
+  const customProblemId = normalizeProblemId(customProblem);
+  const customProblemError = customProblem === ''
+    ? ''
+    : !customProblemId
+      ? 'Use IDs like 16, 3a or 2.3'
+      : problems.length > 0 && !quickProblems.includes(customProblemId)
+        ? `Problem ${customProblemId} is not in the exam definition`
+        : '';
+
   const handleCustomLabel = () => {
-    const problemNumber = parseInt(customProblem);
-    if (problemNumber > 0) {
-      onPageLabel(currentPage, problemNumber);
+    const problemId = customProblemId;
+    if (problemId && !customProblemError) {
+      onPageLabel(currentPage, problemId);
       setCustomProblem('');
     }
   };
@@ -80,34 +100,66 @@ const PageLabeler: React.FC<PageLabelerProps> = ({
         <Typography variant="h6" sx={{ color: '#1e293b', fontWeight: 600 }}>
           Label Page {currentPage}
         </Typography>
+        {onEditProblems && (
+          <Button size="small" startIcon={<Edit />} onClick={onEditProblems} sx={{ ml: 'auto' }}>
+            Edit Problems
+          </Button>
+        )}
       </Box>
 
       <Typography variant="body2" color="text.secondary" gutterBottom>
         Click a problem number to label this page, or mark as "Not a problem":
       </Typography>
+      <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+        A page with several problems? Drag a box on the page to give a problem only that part of it.
+      </Typography>
 
       {/* Quick Problem Buttons - Using Grid for better alignment */}
       <Box sx={{ mb: 3 }}>
         <Grid container spacing={1}>
           {quickProblems.map((problemNum) => (
             <Grid item xs={4} sm={3} md={2.4} key={problemNum}>
+              <Tooltip title={problems.find(p => p.id === problemNum)?.title || ''}>
+                <Button
+                  variant={currentProblems.includes(problemNum) ? 'contained' : 'outlined'}
+                  size="small"
+                  onClick={() => handleQuickLabel(problemNum)}
+                  fullWidth
+                  sx={{ 
+                    minHeight: 36,
+                    textTransform: 'none',
+                    borderColor: currentProblems.includes(problemNum) ? '#6366f1' : '#e2e8f0',
+                    backgroundColor: currentProblems.includes(problemNum) ? '#6366f1' : 'transparent',
+                    color: currentProblems.includes(problemNum) ? 'white' : '#64748b',
+                    '&:hover': {
+                      borderColor: '#6366f1',
+                      backgroundColor: currentProblems.includes(problemNum) ? '#4f46e5' : '#f8fafc',
+                    }
+                  }}
+                >
+                  {problemNum}
+                </Button>
+              </Tooltip>
+            </Grid>
+          ))}
+          
+          {/* Custom problems on this page, e.g. 3a - click to remove */}
+          {customProblems.map((problemId) => (
+            <Grid item xs={4} sm={3} md={2.4} key={problemId}>
               <Button
-                variant={currentProblems.includes(problemNum) ? 'contained' : 'outlined'}
+                variant="contained"
                 size="small"
-                onClick={() => handleQuickLabel(problemNum)}
+                onClick={() => onRemovePageLabel(currentPage, problemId)}
                 fullWidth
                 sx={{ 
                   minHeight: 36,
-                  borderColor: currentProblems.includes(problemNum) ? '#6366f1' : '#e2e8f0',
-                  backgroundColor: currentProblems.includes(problemNum) ? '#6366f1' : 'transparent',
-                  color: currentProblems.includes(problemNum) ? 'white' : '#64748b',
-                  '&:hover': {
-                    borderColor: '#6366f1',
-                    backgroundColor: currentProblems.includes(problemNum) ? '#4f46e5' : '#f8fafc',
-                  }
+                  backgroundColor: '#6366f1',
+                  color: 'white',
+                  textTransform: 'none',
+                  '&:hover': { backgroundColor: '#4f46e5' }
                 }}
               >
-                {problemNum}
+                {problemId}
               </Button>
             </Grid>
           ))}
@@ -140,20 +192,20 @@ const PageLabeler: React.FC<PageLabelerProps> = ({
       {/* Custom Problem Input */}
       <Box sx={{ display: 'flex', gap: 1, alignItems: 'stretch', mb: 2 }}>
         <TextField
-          label="Custom Problem #"
+          label="Custom Problem (e.g. 16, 3a, 2.3)"
           size="small"
-          type="number"
           value={customProblem}
           onChange={(e) => setCustomProblem(e.target.value)}
           onKeyPress={handleKeyPress}
+          error={customProblemError !== ''}
+          helperText={customProblemError || undefined}
           sx={{ flexGrow: 1 }}
-          inputProps={{ min: 1 }}
         />
         <Button
           variant="outlined"
           onClick={handleCustomLabel}
-          disabled={!customProblem || parseInt(customProblem) <= 0}
-          sx={{ minWidth: 80 }}
+          disabled={!customProblemId || customProblemError !== ''}
+          sx={{ minWidth: 80, alignSelf: 'flex-start', height: 40 }}
         >
           Apply
         </Button>
@@ -1,46 +1,123 @@
 import React from 'react';
-import { Box, LinearProgress, Typography, Paper } from '@mui/material';
+import { Box, LinearProgress, Typography, Paper, Tooltip } from '@mui/material';
+
+// Processing state of one student, as pushed by the session's event stream
+export interface StudentProgress {
+  id: number;
+  name: string;
+  processingStatus: 'pending' | 'processing' | 'completed' | 'error';
+  processingError?: string;
+}
+
+// Problem PDFs created so far - they are created in parallel, problemId is the one finished last (null before the first)
+export interface FinalizeProgress {
+  problemId: string | null;
+  completed: number;
+  total: number;
+}
 
 interface ProgressBarProps {
-  current: number;
+  current: number | null; // Student being sorted, null outside of sorting
   total: number;
+  students: StudentProgress[];
+  finalize: FinalizeProgress | null;
 }
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ current, total }) => {
-  const progress = total > 0 ? (current / total) * 100 : 0;
-  const completed = current - 1; // current is 1-indexed, but we want completed count
+const STATUS_COLORS: { [status in StudentProgress['processingStatus']]: string } = {
+  pending: '#e2e8f0',
+  processing: '#6366f1',
+  completed: '#16a34a',
+  error: '#dc2626'
+};
+
+const STATUS_LABELS: { [status in StudentProgress['processingStatus']]: string } = {
+  pending: 'not labeled yet',
+  processing: 'processing',
+  completed: 'processed',
+  error: 'processing failed'
+};
+
+const barSx = {
+  height: 10,
+  borderRadius: 5,
+  mb: 2,
+  backgroundColor: '#f1f5f9',
+  '& .MuiLinearProgress-bar': {
+    background: 'linear-gradient(90deg, #6366f1, #8b5cf6)',
+    borderRadius: 5,
+  }
+};
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ current, total, students, finalize }) => {
+  const progress = current !== null && total > 0 ? (current / total) * 100 : 0;
+  const completed = (current ?? 1) - 1; // current is 1-indexed, but we want completed count
+  const processingCount = students.filter(student => student.processingStatus === 'processing').length;
+  const errorCount = students.filter(student => student.processingStatus === 'error').length;
 
   return (
     <Paper sx={{ p: 4, mb: 3, border: '1px solid #f1f5f9' }}>
-      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
-        <Typography variant="h6" sx={{ color: '#1e293b', fontWeight: 600 }}>
-          Sorting Progress
-        </Typography>
-        <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 500 }}>
-          {completed} of {total} students completed
-        </Typography>
-      </Box>
-      
-      <LinearProgress 
-        variant="determinate" 
-        value={progress} 
-        sx={{ 
-          height: 10, 
-          borderRadius: 5,
-          mb: 2,
-          backgroundColor: '#f1f5f9',
-          '& .MuiLinearProgress-bar': {
-            background: 'linear-gradient(90deg, #6366f1, #8b5cf6)',
-            borderRadius: 5,
-          }
-        }} 
-      />
-      
-      <Typography variant="body2" color="text.secondary" align="center" sx={{ fontWeight: 500 }}>
-        Currently processing: Student {current}
-      </Typography>
+      {current !== null && (
+        <>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+            <Typography variant="h6" sx={{ color: '#1e293b', fontWeight: 600 }}>
+              Sorting Progress
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 500 }}>
+              {completed} of {total} students completed
+            </Typography>
+          </Box>
+
+          <LinearProgress variant="determinate" value={progress} sx={barSx} />
+
+          <Typography variant="body2" color="text.secondary" align="center" sx={{ fontWeight: 500 }}>
+            Currently processing: Student {current}
+          </Typography>
+        </>
+      )}
+
+      {students.length > 0 && (
+        <Box sx={{ mt: current !== null ? 2 : 0 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Background processing
+            {processingCount > 0 && ` - ${processingCount} in progress`}
+            {errorCount > 0 && ` - ${errorCount} failed`}
+          </Typography>
+          {/* One square per student, live from the session's event stream */}
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {students.map(student => (
+              <Tooltip
+                key={student.id}
+                title={`${student.name || `Student ${student.id}`}: ${student.processingError || STATUS_LABELS[student.processingStatus]}`}
+              >
+                <Box
+                  sx={{
+                    width: 12,
+                    height: 12,
+                    borderRadius: 0.5,
+                    backgroundColor: STATUS_COLORS[student.processingStatus],
+                    outline: student.id === current ? '2px solid #1e293b' : undefined
+                  }}
+                />
+              </Tooltip>
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      {finalize && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1, fontWeight: 500 }}>
+            Creating problem PDFs - {finalize.completed} of {finalize.total} done
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={finalize.total > 0 ? (finalize.completed / finalize.total) * 100 : 0}
+            sx={{ ...barSx, mb: 0 }}
+          />
+        </Box>
+      )}
     </Paper>
   );
 };
 
-export default ProgressBar; 
\ No newline at end of file
+export default ProgressBar;
@@ -0,0 +1,369 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Alert,
+  Chip,
+  Tooltip,
+  CircularProgress,
+  FormControlLabel,
+  Checkbox,
+  TextField,
+  MenuItem,
+  AlertTitle
+} from '@mui/material';
+import { CheckCircle, FactCheck, Refresh, Edit } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+import { StudentProgress } from './ProgressBar';
+
+interface ReviewProblem {
+  id: string;
+  title: string;
+}
+
+interface ReviewStudent {
+  id: number;
+  name: string;
+  studentNumber: string;
+  labeled: boolean;
+  processingStatus: 'pending' | 'processing' | 'completed' | 'error';
+  processingError?: string;
+  pages: { [problemId: string]: number[] };
+  missing: string[];
+  duplicatePages: number[];
+}
+
+export type StudentOrder = 'upload' | 'name' | 'number' | 'random';
+
+export interface FinalizeOptions {
+  placeholderPages: boolean;
+  coverPage: boolean;
+  studentOrder: StudentOrder;
+  orderSeed: string;
+  skipFailedStudents: boolean; // Leave out the pages of students whose processing failed
+}
+
+interface ReviewPageProps {
+  sessionId: string;
+  liveStudents: StudentProgress[]; // Processing states from the session's event stream
+  onEditStudent: (studentId: number) => void;
+  onFinalize: (options: FinalizeOptions) => Promise<void>;
+}
+
+const STUDENT_ORDER_LABELS: { [order in StudentOrder]: string } = {
+  upload: 'Upload order',
+  name: 'Student name',
+  number: 'Student number',
+  random: 'Random (same order in every PDF)'
+};
+
+const ReviewPage: React.FC<ReviewPageProps> = ({ sessionId, liveStudents, onEditStudent, onFinalize }) => {
+  const [problems, setProblems] = useState<ReviewProblem[]>([]);
+  const [reviewStudents, setReviewStudents] = useState<ReviewStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFinalizing, setIsFinalizing] = useState(false);
+  const [placeholderPages, setPlaceholderPages] = useState(false);
+  const [coverPage, setCoverPage] = useState(false);
+  const [studentOrder, setStudentOrder] = useState<StudentOrder>('upload');
+  const [orderSeed, setOrderSeed] = useState('');
+  const [anonymize, setAnonymize] = useState(false);
+  const [error, setError] = useState('');
+  const [retryingIds, setRetryingIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    const loadReview = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, '/review'));
+        const result = await response.json();
+        if (!response.ok) {
+          setError(result.error || 'Failed to load the review');
+          return;
+        }
+        setProblems(result.problems);
+        setReviewStudents(result.students);
+        setPlaceholderPages(Boolean(result.placeholderPages));
+        setCoverPage(Boolean(result.coverPage));
+        setStudentOrder(result.studentOrder);
+        setOrderSeed(result.orderSeed);
+        setAnonymize(Boolean(result.anonymize));
+      } catch (error) {
+        console.error('Failed to load review:', error);
+        setError('Failed to load the review');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadReview();
+  }, [sessionId]);
+
+  // Processing states change while the page is open, e.g. after a retry
+  const students = reviewStudents.map(student => {
+    const live = liveStudents.find(s => s.id === student.id);
+    return live ? { ...student, processingStatus: live.processingStatus, processingError: live.processingError } : student;
+  });
+  const isProcessing = students.some(student => student.processingStatus === 'processing');
+  // Like the backend, only labeled students count - unlabeled ones are left out of the problem PDFs anyway
+  const failedStudents = students.filter(student => student.labeled && student.processingStatus === 'error');
+
+  const handleRetry = async (studentId: number) => {
+    setRetryingIds(prev => [...prev, studentId]);
+    setError('');
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, `/student/${studentId}/retry`), { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to retry processing');
+      }
+    } catch (error) {
+      console.error('Failed to retry processing:', error);
+      setError('Failed to retry processing');
+    } finally {
+      setRetryingIds(prev => prev.filter(id => id !== studentId));
+    }
+  };
+
+  const handleFinalize = async () => {
+    const skipFailedStudents = failedStudents.length > 0;
+    if (skipFailedStudents && !window.confirm(
+      `Processing failed for ${failedStudents.length} students. Create the problem PDFs without their pages?`
+    )) {
+      return;
+    }
+    setIsFinalizing(true);
+    try {
+      await onFinalize({ placeholderPages, coverPage, studentOrder, orderSeed: orderSeed.trim(), skipFailedStudents });
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
+  const unlabeledStudents = students.filter(student => !student.labeled);
+  const missingCount = students.reduce((sum, student) => sum + student.missing.length, 0);
+  const duplicateCount = students.reduce((sum, student) => sum + student.duplicatePages.length, 0);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 400 }}>
+        <CircularProgress size={60} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 1400, mx: 'auto' }}>
+      <Paper sx={{ p: 4, border: '1px solid #f1f5f9' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+          <FactCheck sx={{ color: '#6366f1', fontSize: 28 }} />
+          <Typography variant="h5" sx={{ color: '#1e293b', fontWeight: 600, flexGrow: 1 }}>
+            Review Labels
+          </Typography>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={handleFinalize}
+            disabled={isFinalizing || isProcessing || students.length === unlabeledStudents.length || (studentOrder === 'random' && !orderSeed.trim())}
+            startIcon={isFinalizing ? <CircularProgress size={20} color="inherit" /> : <CheckCircle />}
+          >
+            {isFinalizing ? 'Creating Problem PDFs...' : 'Create Problem PDFs'}
+          </Button>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Each cell lists the pages of a student that were labeled with that problem. Click a student
+          to go back and fix their labels before the problem PDFs are created.
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <Chip label={`${students.length} students`} size="small" />
+          <Chip
+            label={`${missingCount} missing answers`}
+            size="small"
+            color={missingCount > 0 ? 'error' : 'success'}
+            variant="outlined"
+          />
+          <Chip
+            label={`${duplicateCount} pages with several problems`}
+            size="small"
+            color={duplicateCount > 0 ? 'warning' : 'default'}
+            variant="outlined"
+          />
+        </Box>
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={placeholderPages}
+              onChange={(e) => setPlaceholderPages(e.target.checked)}
+            />
+          }
+          label='Add a "No answer submitted" page for every missing answer, so each problem PDF has every student'
+          sx={{ display: 'flex' }}
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={coverPage}
+              onChange={(e) => setCoverPage(e.target.checked)}
+            />
+          }
+          label="Start each problem PDF with a cover page listing every student and their page (bookmarks are always added)"
+          sx={{ display: 'flex', mb: 2 }}
+        />
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            select
+            size="small"
+            label="Order of students in each problem PDF"
+            value={studentOrder}
+            onChange={(e) => setStudentOrder(e.target.value as StudentOrder)}
+            sx={{ minWidth: 320 }}
+          >
+            {(Object.keys(STUDENT_ORDER_LABELS) as StudentOrder[]).map(order => (
+              <MenuItem key={order} value={order}>
+                {STUDENT_ORDER_LABELS[order]}
+              </MenuItem>
+            ))}
+          </TextField>
+          {studentOrder === 'random' && (
+            <TextField
+              size="small"
+              label="Seed"
+              value={orderSeed}
+              onChange={(e) => setOrderSeed(e.target.value)}
+              helperText="The same seed always gives the same order"
+              inputProps={{ maxLength: 100 }}
+            />
+          )}
+        </Box>
+        {anonymize && studentOrder !== 'random' && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Blind grading is on - ordering by name or number lets graders guess who is behind each code.
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {failedStudents.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            <AlertTitle>Processing failed for {failedStudents.length} students</AlertTitle>
+            Their pages are left out of the problem PDFs until processing succeeds. Retry, or open the
+            student to check their labels and submit them again.
+            {failedStudents.map(student => (
+              <Box key={student.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  {student.name || `Student ${student.id}`}
+                </Typography>
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  {student.processingError || 'Unknown processing error'}
+                </Typography>
+                <Button
+                  size="small"
+                  color="error"
+                  startIcon={retryingIds.includes(student.id) ? <CircularProgress size={16} color="inherit" /> : <Refresh />}
+                  disabled={retryingIds.includes(student.id)}
+                  onClick={() => handleRetry(student.id)}
+                >
+                  Retry
+                </Button>
+                <Button size="small" color="error" startIcon={<Edit />} onClick={() => onEditStudent(student.id)}>
+                  Open
+                </Button>
+              </Box>
+            ))}
+          </Alert>
+        )}
+        {unlabeledStudents.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {unlabeledStudents.length} students aren't labeled yet and will be left out of the problem PDFs:{' '}
+            {unlabeledStudents.map(student => student.name || `student ${student.id}`).join(', ')}
+          </Alert>
+        )}
+
+        <TableContainer sx={{ maxHeight: '70vh' }}>
+          <Table stickyHeader size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Nr</TableCell>
+                <TableCell>Student</TableCell>
+                {problems.map(problem => (
+                  <TableCell key={problem.id} align="center">
+                    <Typography variant="subtitle2">Problem {problem.id}</Typography>
+                    {problem.title && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {problem.title}
+                      </Typography>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {students.map(student => (
+                <TableRow
+                  key={student.id}
+                  hover
+                  onClick={() => onEditStudent(student.id)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell>{student.studentNumber}</TableCell>
+                  <TableCell>
+                    {student.name || <em>Unnamed</em>}
+                    {!student.labeled && (
+                      <Chip label="Not labeled" size="small" color="warning" sx={{ ml: 1 }} />
+                    )}
+                    {student.processingStatus === 'error' && (
+                      <Chip label="Processing failed" size="small" color="error" sx={{ ml: 1 }} />
+                    )}
+                    {student.processingStatus === 'processing' && (
+                      <Chip label="Processing" size="small" color="primary" variant="outlined" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  {problems.map(problem => {
+                    const pages = student.pages[problem.id] || [];
+                    const isMissing = student.missing.includes(problem.id);
+                    return (
+                      <TableCell
+                        key={problem.id}
+                        align="center"
+                        sx={{ backgroundColor: isMissing ? '#fef2f2' : undefined }}
+                      >
+                        {isMissing ? (
+                          <Typography variant="caption" sx={{ color: '#dc2626', fontWeight: 600 }}>
+                            missing
+                          </Typography>
+                        ) : pages.map(pageNumber => student.duplicatePages.includes(pageNumber) ? (
+                          <Tooltip
+                            key={pageNumber}
+                            title={`Page ${pageNumber} is labeled with several problems and appears in each of their PDFs`}
+                          >
+                            <Chip label={`p. ${pageNumber}`} size="small" color="warning" sx={{ m: 0.25 }} />
+                          </Tooltip>
+                        ) : (
+                          <Chip key={pageNumber} label={`p. ${pageNumber}`} size="small" variant="outlined" sx={{ m: 0.25 }} />
+                        ))}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Box>
+  );
+};
+
+export default ReviewPage;
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress
+} from '@mui/material';
+import { Groups, Upload, Clear } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+
+export interface RosterStudent {
+  name: string;
+  studentNumber: string;
+  email: string;
+  studentIds: number[]; // Uploaded students with this name
+}
+
+export interface RosterStatus {
+  roster: RosterStudent[];
+  students: { id: number; name: string; studentNumber: string }[];
+  duplicates: { id: number; name: string; studentNumber: string }[];
+  missing: string[];
+}
+
+interface RosterPanelProps {
+  sessionId: string;
+}
+
+const RosterPanel: React.FC<RosterPanelProps> = ({ sessionId }) => {
+  const [status, setStatus] = useState<RosterStatus | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/roster'));
+      setStatus(await response.json());
+    } catch (error) {
+      console.error('Failed to load roster:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/roster'), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ csv: await file.text() })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to import roster');
+        return;
+      }
+      setStatus(result);
+      setMessage(`Imported ${result.roster.length} students${result.renamed > 0 ? ` and filled in ${result.renamed} names from file names` : ''}`);
+    } catch (error) {
+      console.error('Roster import error:', error);
+      setError('Failed to import roster');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/roster'), { method: 'DELETE' });
+      setStatus(await response.json());
+      setMessage('');
+    } catch (error) {
+      console.error('Failed to clear roster:', error);
+      setError('Failed to clear roster');
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 4, mt: 3, border: '1px solid #f1f5f9' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Groups sx={{ color: '#6366f1', fontSize: 28 }} />
+        <Typography variant="h5" sx={{ color: '#1e293b', fontWeight: 600 }}>
+          Class Roster
+        </Typography>
+        {status && status.roster.length > 0 && (
+          <Chip label={`${status.roster.length} students`} size="small" />
+        )}
+      </Box>
+
+      <Typography variant="body1" color="text.secondary" paragraph>
+        Optional: import the class list as CSV with a "Name" column (or "First name" and "Last name"),
+        plus "Student number" and "Email" if you have them. Names are then suggested while sorting,
+        and file names like doe_jane_12345_submission.pdf are matched to the roster.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={isImporting ? <CircularProgress size={18} /> : <Upload />}
+          disabled={isImporting}
+        >
+          Import Roster CSV
+          <input type="file" accept=".csv,text/csv" hidden onChange={handleImport} />
+        </Button>
+        {status && status.roster.length > 0 && (
+          <Button color="error" startIcon={<Clear />} onClick={handleClear}>
+            Remove Roster
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {message}
+        </Alert>
+      )}
+
+      {status && status.duplicates.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The same name or student number is used for several submissions:{' '}
+          {status.duplicates.map(student => `${student.name} (student ${student.id})`).join(', ')}
+        </Alert>
+      )}
+      {status && status.roster.length > 0 && status.missing.length > 0 && (
+        <Alert severity="info">
+          {status.missing.length} students on the roster have no submission yet: {status.missing.join(', ')}
+        </Alert>
+      )}
+    </Paper>
+  );
+};
+
+export default RosterPanel;
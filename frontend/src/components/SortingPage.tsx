@@ -9,51 +9,74 @@ import {
   Alert,
   CircularProgress,
   Chip,
-  Stack
+  Stack,
+  Autocomplete
 } from '@mui/material';
 import { Save, NavigateNext, Person } from '@mui/icons-material';
-import PDFViewer from './PDFViewer';
+import PDFViewer, { PageRegion } from './PDFViewer';
 import PageLabeler from './PageLabeler';
+import WatermarkSettingsPanel from './WatermarkSettingsPanel';
+import StudentNavigator from './StudentNavigator';
+import { ExamProblem } from './ExamDefinitionPage';
+import { RosterStatus, RosterStudent } from './RosterPanel';
+import { nameKey } from '../utils/names';
+import { sessionApiUrl } from '../utils/api';
+import { NOT_A_PROBLEM, isProblemId } from '../utils/problemIds';
 
 interface StudentData {
   studentId: number;
   studentName: string;
+  studentNumber: string;
   pdfData: string;
-  pageLabels: { [pageNumber: number]: number[] }; // Array of problem numbers per page
+  pageLabels: { [pageNumber: number]: string[] }; // Array of problem IDs per page
+  pageRegions: { [pageNumber: number]: PageRegion[] }; // Parts of pages cut out for a single problem
 }
 
 interface SortingPageProps {
+  sessionId: string;
   studentId: number;
   onStudentComplete: () => void;
   totalStudents: number; // Need this to know if we should prefetch next student
   prefetchedStudentData?: StudentData | null; // Prefetched data for current student
   onPrefetchComplete?: (studentId: number, data: StudentData) => void; // Callback when prefetch completes
+  onEditExam: () => void;
+  onNavigate: (studentId: number) => void; // Jump to another student without submitting this one
+  onReview: () => void;
 }
 
 const SortingPage: React.FC<SortingPageProps> = ({ 
+  sessionId,
   studentId, 
   onStudentComplete, 
   totalStudents, 
   prefetchedStudentData, 
-  onPrefetchComplete 
+  onPrefetchComplete,
+  onEditExam,
+  onNavigate,
+  onReview
 }) => {
   const [studentData, setStudentData] = useState<StudentData | null>(null);
   const [studentName, setStudentName] = useState('');
+  const [studentNumber, setStudentNumber] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
-  const [pageLabels, setPageLabels] = useState<{ [pageNumber: number]: number[] }>({});
+  const [pageLabels, setPageLabels] = useState<{ [pageNumber: number]: string[] }>({});
+  const [pageRegions, setPageRegions] = useState<{ [pageNumber: number]: PageRegion[] }>({});
   const [scale, setScale] = useState(1.0);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
+  const [processingError, setProcessingError] = useState<string>('');
+  const [examProblems, setExamProblems] = useState<ExamProblem[]>([]);
+  const [rosterStatus, setRosterStatus] = useState<RosterStatus | null>(null);
   
   // Prefetching state
   const [hasPrefetchedNext, setHasPrefetchedNext] = useState(false);
   const [isUserLabeling, setIsUserLabeling] = useState(false);
   
-  // State for timing-based two-digit keyboard input
-  const [lastAddedProblem, setLastAddedProblem] = useState<number | null>(null);
+  // State for timing-based two-digit (and digit-then-letter) keyboard input
+  const [lastAddedProblem, setLastAddedProblem] = useState<string | null>(null);
   const [lastAddedTimestamp, setLastAddedTimestamp] = useState<number>(0);
   const [lastAddedTimeout, setLastAddedTimeout] = useState<number | null>(null);
   const [lastAddedWasNew, setLastAddedWasNew] = useState<boolean>(false);
@@ -69,6 +92,33 @@ const SortingPage: React.FC<SortingPageProps> = ({
     setLastAddedWasNew(false);
   }, [currentPage]);
 
+  // The exam definition decides which labels the buttons and keyboard shortcuts offer
+  useEffect(() => {
+    const loadExamProblems = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, '/exam'));
+        const result = await response.json();
+        setExamProblems(result.problems || []);
+      } catch (error) {
+        console.error('Failed to load exam definition:', error);
+      }
+    };
+    loadExamProblems();
+  }, [sessionId]);
+
+  // Roster and the names already given to other students, refreshed for every student
+  useEffect(() => {
+    const loadRoster = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, '/roster'));
+        setRosterStatus(await response.json());
+      } catch (error) {
+        console.error('Failed to load roster:', error);
+      }
+    };
+    loadRoster();
+  }, [sessionId, studentId]);
+
   // Prefetch next student's PDF in background
   const prefetchNextStudent = useCallback(async () => {
     const nextStudentId = studentId + 1;
@@ -84,7 +134,7 @@ const SortingPage: React.FC<SortingPageProps> = ({
       setHasPrefetchedNext(true);
       const prefetchStartTime = performance.now();
 
-      const response = await fetch(`/api/student/${nextStudentId}`);
+      const response = await fetch(sessionApiUrl(sessionId, `/student/${nextStudentId}`));
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -92,8 +142,10 @@ const SortingPage: React.FC<SortingPageProps> = ({
       }
       
       // Get metadata from headers
-      const studentName = response.headers.get('X-Student-Name') || '';
+      const studentName = decodeURIComponent(response.headers.get('X-Student-Name') || '');
+      const studentNumber = decodeURIComponent(response.headers.get('X-Student-Number') || '');
       const pageLabels = JSON.parse(response.headers.get('X-Page-Labels') || '{}');
+      const pageRegions = JSON.parse(response.headers.get('X-Page-Regions') || '{}');
       
       // Convert binary response to base64 for PDF.js compatibility (non-blocking for large files)
       const arrayBuffer = await response.arrayBuffer();
@@ -136,8 +188,10 @@ const SortingPage: React.FC<SortingPageProps> = ({
       const prefetchedData: StudentData = {
         studentId: nextStudentId,
         studentName: studentName,
+        studentNumber: studentNumber,
         pdfData: base64String,
-        pageLabels: pageLabels
+        pageLabels: pageLabels,
+        pageRegions: pageRegions
       };
 
       const prefetchEndTime = performance.now();
@@ -159,7 +213,24 @@ const SortingPage: React.FC<SortingPageProps> = ({
       console.error(`❌ Background prefetch failed for student ${nextStudentId}:`, error);
       setHasPrefetchedNext(false); // Allow retry
     }
-  }, [studentId, totalStudents, hasPrefetchedNext, onPrefetchComplete]);
+  }, [sessionId, studentId, totalStudents, hasPrefetchedNext, onPrefetchComplete]);
+
+  // A student reopened after their processing failed shows why
+  useEffect(() => {
+    setProcessingError('');
+    const loadProcessingStatus = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, `/student/${studentId}/status`));
+        const status = await response.json();
+        if (response.ok && status.processingStatus === 'error') {
+          setProcessingError(status.processingError || 'Unknown processing error');
+        }
+      } catch (error) {
+        console.error('Failed to load processing status:', error);
+      }
+    };
+    loadProcessingStatus();
+  }, [sessionId, studentId]);
 
   // Load student data - check for prefetched data first, then fetch if needed
   useEffect(() => {
@@ -182,7 +253,9 @@ const SortingPage: React.FC<SortingPageProps> = ({
           
           setStudentData(prefetchedStudentData);
           setStudentName(prefetchedStudentData.studentName);
+          setStudentNumber(prefetchedStudentData.studentNumber);
           setPageLabels(prefetchedStudentData.pageLabels);
+          setPageRegions(prefetchedStudentData.pageRegions);
           
           // Reset to page 1 when new student PDF is loaded
           setCurrentPage(1);
@@ -195,7 +268,7 @@ const SortingPage: React.FC<SortingPageProps> = ({
         // No prefetched data available, fetch normally
         console.log(`🔄 No prefetched data available, fetching student ${studentId} normally...`);
         const startTime = performance.now();
-        const response = await fetch(`/api/student/${studentId}`);
+        const response = await fetch(sessionApiUrl(sessionId, `/student/${studentId}`));
         
         if (!response.ok) {
           const errorData = await response.json();
@@ -203,8 +276,10 @@ const SortingPage: React.FC<SortingPageProps> = ({
         }
         
         // Get metadata from headers
-        const studentName = response.headers.get('X-Student-Name') || '';
+        const studentName = decodeURIComponent(response.headers.get('X-Student-Name') || '');
+        const studentNumber = decodeURIComponent(response.headers.get('X-Student-Number') || '');
         const pageLabels = JSON.parse(response.headers.get('X-Page-Labels') || '{}');
+        const pageRegions = JSON.parse(response.headers.get('X-Page-Regions') || '{}');
         
         // Convert binary response to base64 for PDF.js compatibility (non-blocking for large files)
         const arrayBuffer = await response.arrayBuffer();
@@ -250,11 +325,15 @@ const SortingPage: React.FC<SortingPageProps> = ({
         setStudentData({
           studentId: studentId,
           studentName: studentName,
+          studentNumber: studentNumber,
           pdfData: base64String,
-          pageLabels: pageLabels
+          pageLabels: pageLabels,
+          pageRegions: pageRegions
         });
         setStudentName(studentName);
+        setStudentNumber(studentNumber);
         setPageLabels(pageLabels);
+        setPageRegions(pageRegions);
         
         // Reset to page 1 when new student PDF is loaded
         setCurrentPage(1);
@@ -271,21 +350,21 @@ const SortingPage: React.FC<SortingPageProps> = ({
     };
 
     loadStudent();
-  }, [studentId]); // Only re-run when studentId changes, not when prefetch data arrives
+  }, [sessionId, studentId]); // Only re-run when the student changes, not when prefetch data arrives
 
   // Handle page labeling - now supports multiple problems per page
-  const handlePageLabel = useCallback((pageNumber: number, problemNumber: number) => {
+  const handlePageLabel = useCallback((pageNumber: number, problemId: string) => {
     setPageLabels(prev => {
       const newLabels = { ...prev };
       const currentProblems = newLabels[pageNumber] || [];
       
-      if (problemNumber === -1) {
-        // Handle "Not a problem" - replace all existing labels with just -1
-        newLabels[pageNumber] = [-1];
-      } else if (problemNumber > 0) {
+      if (problemId === NOT_A_PROBLEM) {
+        // Handle "Not a problem" - replace all existing labels with just the marker
+        newLabels[pageNumber] = [NOT_A_PROBLEM];
+      } else {
         // For regular problems, only add if not already present and not marked as "Not a problem"
-        if (!currentProblems.includes(-1) && !currentProblems.includes(problemNumber)) {
-          newLabels[pageNumber] = [...currentProblems, problemNumber];
+        if (!currentProblems.includes(NOT_A_PROBLEM) && !currentProblems.includes(problemId)) {
+          newLabels[pageNumber] = [...currentProblems, problemId];
         }
       }
       
@@ -301,19 +380,19 @@ const SortingPage: React.FC<SortingPageProps> = ({
     });
   }, [isUserLabeling, prefetchNextStudent]);
 
-  // Handle page labeling from keyboard - always adds labels (allows duplicates)
-  const handleKeyboardPageLabel = useCallback((pageNumber: number, problemNumber: number) => {
+  // Handle page labeling from keyboard - adds the label, the key handler only calls this for labels the page doesn't have yet
+  const handleKeyboardPageLabel = useCallback((pageNumber: number, problemId: string) => {
     setPageLabels(prev => {
       const newLabels = { ...prev };
       const currentProblems = newLabels[pageNumber] || [];
       
-      if (problemNumber === -1) {
-        // Handle "Not a problem" - replace all existing labels with just -1
-        newLabels[pageNumber] = [-1];
-      } else if (problemNumber > 0) {
+      if (problemId === NOT_A_PROBLEM) {
+        // Handle "Not a problem" - replace all existing labels with just the marker
+        newLabels[pageNumber] = [NOT_A_PROBLEM];
+      } else {
         // For regular problems, only add if not marked as "Not a problem"
-        if (!currentProblems.includes(-1)) {
-          newLabels[pageNumber] = [...currentProblems, problemNumber];
+        if (!currentProblems.includes(NOT_A_PROBLEM)) {
+          newLabels[pageNumber] = [...currentProblems, problemId];
         }
       }
       
@@ -331,11 +410,11 @@ const SortingPage: React.FC<SortingPageProps> = ({
   }, [isUserLabeling, prefetchNextStudent]);
 
   // Handle removing a specific problem label from a page
-  const handleRemovePageLabel = useCallback((pageNumber: number, problemNumber: number) => {
+  const handleRemovePageLabel = useCallback((pageNumber: number, problemId: string) => {
     setPageLabels(prev => {
       const newLabels = { ...prev };
       const currentProblems = newLabels[pageNumber] || [];
-      const filteredProblems = currentProblems.filter(p => p !== problemNumber);
+      const filteredProblems = currentProblems.filter(p => p !== problemId);
       
       if (filteredProblems.length === 0) {
         delete newLabels[pageNumber];
@@ -347,13 +426,13 @@ const SortingPage: React.FC<SortingPageProps> = ({
   }, []);
 
   // Handle removing the last instance of a specific problem label from a page
-  const handleRemoveLastInstancePageLabel = useCallback((pageNumber: number, problemNumber: number) => {
+  const handleRemoveLastInstancePageLabel = useCallback((pageNumber: number, problemId: string) => {
     setPageLabels(prev => {
       const newLabels = { ...prev };
       const currentProblems = newLabels[pageNumber] || [];
       
       // Find the last occurrence and remove only that one
-      const lastIndex = currentProblems.lastIndexOf(problemNumber);
+      const lastIndex = currentProblems.lastIndexOf(problemId);
       if (lastIndex !== -1) {
         const updatedProblems = [...currentProblems];
         updatedProblems.splice(lastIndex, 1);
@@ -388,6 +467,35 @@ const SortingPage: React.FC<SortingPageProps> = ({
     });
   }, []);
 
+  // A region cuts out part of a page for one problem, so that problem also becomes a label of the page.
+  // Drawing another region for the same problem on the page replaces the old one.
+  const handleAddRegion = useCallback((pageNumber: number, region: PageRegion) => {
+    setPageLabels(prev => {
+      const currentProblems = (prev[pageNumber] || []).filter(isProblemId);
+      return currentProblems.includes(region.problemId)
+        ? { ...prev, [pageNumber]: currentProblems }
+        : { ...prev, [pageNumber]: [...currentProblems, region.problemId] };
+    });
+    setPageRegions(prev => ({
+      ...prev,
+      [pageNumber]: [...(prev[pageNumber] || []).filter(r => r.problemId !== region.problemId), region]
+    }));
+  }, []);
+
+  // The label stays - the problem gets the whole page again
+  const handleRemoveRegion = useCallback((pageNumber: number, problemId: string) => {
+    setPageRegions(prev => {
+      const regions = (prev[pageNumber] || []).filter(r => r.problemId !== problemId);
+      const newRegions = { ...prev };
+      if (regions.length === 0) {
+        delete newRegions[pageNumber];
+      } else {
+        newRegions[pageNumber] = regions;
+      }
+      return newRegions;
+    });
+  }, []);
+
   // Handle keyboard shortcuts with timing-based two-digit support
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -401,121 +509,79 @@ const SortingPage: React.FC<SortingPageProps> = ({
       const key = event.key;
       const now = Date.now();
 
-             // Number keys 1-9 and 0 for quick labeling (timing-based two-digit combinations)
-       if ((key >= '1' && key <= '9') || key === '0') {
-         const newProblemNumber = parseInt(key);
-         const currentProblems = pageLabels[currentPage] || [];
-         
-         // First, check if we need to clear expired state
-         if (lastAddedProblem !== null && lastAddedTimestamp > 0 && (now - lastAddedTimestamp) > 500) {
-           // More than 500ms has passed, clear the state
-           if (lastAddedTimeout) {
-             clearTimeout(lastAddedTimeout);
-           }
-           setLastAddedProblem(null);
-           setLastAddedTimestamp(0);
-           setLastAddedTimeout(null);
-           setLastAddedWasNew(false);
-         }
-         
-         // Special handling for '0' - it can only be used as second digit
-         if (key === '0') {
-           // 0 can only be used as second digit in combination
-           if (lastAddedProblem !== null && 
-               lastAddedTimestamp > 0 && 
-               (now - lastAddedTimestamp) <= 500) {
-             // Clear the existing timeout
-             if (lastAddedTimeout) {
-               clearTimeout(lastAddedTimeout);
-               setLastAddedTimeout(null);
-             }
-             
-             // Create the two-digit combination (e.g., 10, 20, 30, etc.)
-             const combinedNumber = parseInt(lastAddedProblem.toString() + key);
-             
-             // Only add the combined number if it doesn't already exist
-             if (!currentProblems.includes(combinedNumber)) {
-               // If the first digit was actually added (was new), remove it first
-               if (lastAddedWasNew) {
-                 handleRemoveLastInstancePageLabel(currentPage, lastAddedProblem);
-               }
-               
-               // Add the two-digit combination
-               handleKeyboardPageLabel(currentPage, combinedNumber);
-             }
-             
-             // Clear the last added state
-             setLastAddedProblem(null);
-             setLastAddedTimestamp(0);
-             setLastAddedWasNew(false);
-           }
-           // If no recent digit or outside 500ms window, do nothing with '0'
-           event.preventDefault();
-           return;
-         }
-         
-         // Check if this should be a two-digit combination (for digits 1-9)
-         // Only allow if we have a recent label AND we're still within the 500ms window
-         if (lastAddedProblem !== null && 
-             lastAddedTimestamp > 0 && 
-             (now - lastAddedTimestamp) <= 500) {
-           // Clear the existing timeout
-           if (lastAddedTimeout) {
-             clearTimeout(lastAddedTimeout);
-             setLastAddedTimeout(null);
-           }
-           
-           // Create the two-digit combination
-           const combinedNumber = parseInt(lastAddedProblem.toString() + key);
-           
-           // Only add the combined number if it doesn't already exist
-           if (!currentProblems.includes(combinedNumber)) {
-             // If the first digit was actually added (was new), remove it first
-             if (lastAddedWasNew) {
-               handleRemoveLastInstancePageLabel(currentPage, lastAddedProblem);
-             }
-             
-             // Add the two-digit combination
-             handleKeyboardPageLabel(currentPage, combinedNumber);
-           }
-           
-           // Clear the last added state
-           setLastAddedProblem(null);
-           setLastAddedTimestamp(0);
-           setLastAddedWasNew(false);
-         } else {
-           // Clear any existing timeout since we're starting fresh
-           if (lastAddedTimeout) {
-             clearTimeout(lastAddedTimeout);
-           }
-           
-           // Check if this number already exists on the page
-           const alreadyExists = currentProblems.includes(newProblemNumber);
-           let wasAdded = false;
-           
-           // Add the single digit label only if it doesn't already exist
-           if (!alreadyExists) {
-             handleKeyboardPageLabel(currentPage, newProblemNumber);
-             wasAdded = true;
-           }
-           
-           // Always record the press for potential two-digit combination
-           setLastAddedProblem(newProblemNumber);
-           setLastAddedTimestamp(now);
-           setLastAddedWasNew(wasAdded);
-           
-           // Set timeout to clear the state after 500ms
-           const timeoutId = setTimeout(() => {
-             setLastAddedProblem(null);
-             setLastAddedTimestamp(0);
-             setLastAddedTimeout(null);
-             setLastAddedWasNew(false);
-           }, 500);
-           setLastAddedTimeout(timeoutId);
-         }
-         
-         event.preventDefault();
-       }
+      // Number keys 1-9 label the page right away. A second digit or a letter pressed within 500ms
+      // extends that label instead: 1 then 2 = 12, 1 then 0 = 10, 3 then a = 3a, 1, 2 then b = 12b
+      const isDigit = key >= '0' && key <= '9';
+      const isLetter = /^[a-z]$/i.test(key) && !event.ctrlKey && !event.metaKey && !event.altKey;
+      if (isDigit || isLetter) {
+        const currentProblems = pageLabels[currentPage] || [];
+        const recentProblem = lastAddedProblem !== null && lastAddedTimestamp > 0 && (now - lastAddedTimestamp) <= 500
+          ? lastAddedProblem
+          : null;
+
+        if (lastAddedTimeout) {
+          clearTimeout(lastAddedTimeout);
+        }
+
+        // Remember the last label for a short while so the next key can extend it
+        const rememberProblem = (problemId: string | null, wasNew: boolean) => {
+          setLastAddedProblem(problemId);
+          setLastAddedTimestamp(problemId ? now : 0);
+          setLastAddedWasNew(problemId ? wasNew : false);
+          setLastAddedTimeout(problemId ? setTimeout(() => {
+            setLastAddedProblem(null);
+            setLastAddedTimestamp(0);
+            setLastAddedTimeout(null);
+            setLastAddedWasNew(false);
+          }, 500) : null);
+        };
+
+        // Without an exam definition any label goes. With one, only defined problems are added,
+        // but a press that starts a defined ID (1 when only 1a and 1b exist) is kept for combining
+        const definedIds = examProblems.map(p => p.id);
+        const isDefined = (problemId: string) => definedIds.length === 0 || definedIds.includes(problemId);
+        const isPrefix = (problemId: string) => definedIds.some(id => id.length > problemId.length && id.startsWith(problemId));
+
+        // Only a single digit takes a second digit, and only a number takes a letter
+        const combinedProblem = recentProblem !== null &&
+          (isDigit ? /^\d$/.test(recentProblem) : /^\d+$/.test(recentProblem))
+          ? recentProblem + key.toLowerCase()
+          : null;
+
+        if (recentProblem !== null && combinedProblem !== null && (isDefined(combinedProblem) || isPrefix(combinedProblem))) {
+          let wasAdded = false;
+
+          // Only add the combined label if it is defined and doesn't already exist
+          if (isDefined(combinedProblem) && !currentProblems.includes(combinedProblem)) {
+            // If the first part was actually added (was new), replace it
+            if (lastAddedWasNew) {
+              handleRemoveLastInstancePageLabel(currentPage, recentProblem);
+            }
+            handleKeyboardPageLabel(currentPage, combinedProblem);
+            wasAdded = true;
+          } else if (!isDefined(combinedProblem) && lastAddedWasNew) {
+            // Only the start of a defined ID (12 of 12a) - the first digit alone was wrong
+            handleRemoveLastInstancePageLabel(currentPage, recentProblem);
+          }
+
+          // A two-digit number can still get a letter; a letter ends the label
+          rememberProblem(isDigit ? combinedProblem : null, wasAdded);
+        } else if (isDigit && key !== '0' && (isDefined(key) || isPrefix(key))) {
+          // Add the single digit label only if it is defined and doesn't already exist,
+          // but always record the press for a potential combination
+          const wasAdded = isDefined(key) && !currentProblems.includes(key);
+          if (wasAdded) {
+            handleKeyboardPageLabel(currentPage, key);
+          }
+          rememberProblem(key, wasAdded);
+        } else {
+          // 0, a letter without a recent number or an undefined problem does nothing
+          rememberProblem(null, false);
+        }
+
+        event.preventDefault();
+        return;
+      }
       
       // Arrow keys for navigation
       if (key === 'ArrowLeft' && currentPage > 1) {
@@ -535,7 +601,7 @@ const SortingPage: React.FC<SortingPageProps> = ({
 
       // Spacebar key for "Not a problem"
       if (key === ' ') {
-        handleKeyboardPageLabel(currentPage, -1);
+        handleKeyboardPageLabel(currentPage, NOT_A_PROBLEM);
         event.preventDefault();
       }
     };
@@ -549,9 +615,53 @@ const SortingPage: React.FC<SortingPageProps> = ({
         clearTimeout(lastAddedTimeout);
       }
     };
-  }, [currentPage, totalPages, pageLabels, handlePageLabel, handleKeyboardPageLabel, handleRemovePageLabel, handleRemoveLastInstancePageLabel, handleRemoveLastLabel, 
+  }, [currentPage, totalPages, pageLabels, examProblems, handlePageLabel, handleKeyboardPageLabel, handleRemovePageLabel, handleRemoveLastInstancePageLabel, handleRemoveLastLabel, 
       lastAddedProblem, lastAddedTimestamp, lastAddedTimeout, lastAddedWasNew]);
 
+  // Flag names and numbers that another student already has and names missing from the roster
+  const currentNameKey = nameKey(studentName);
+  const currentNumber = studentNumber.trim().toLowerCase();
+  const nameWarnings: string[] = [];
+  if (currentNameKey && rosterStatus) {
+    const sameName = rosterStatus.students.filter(s => s.id !== studentId && nameKey(s.name) === currentNameKey);
+    if (sameName.length > 0) {
+      nameWarnings.push(`This name is also used for student ${sameName.map(s => s.id).join(', ')}`);
+    }
+    if (rosterStatus.roster.length > 0 && !rosterStatus.roster.some(entry => nameKey(entry.name) === currentNameKey)) {
+      nameWarnings.push('This name is not on the class roster');
+    }
+  }
+  if (currentNumber && rosterStatus) {
+    const sameNumber = rosterStatus.students.filter(s => s.id !== studentId && s.studentNumber.toLowerCase() === currentNumber);
+    if (sameNumber.length > 0) {
+      nameWarnings.push(`Student number ${studentNumber.trim()} is also used for student ${sameNumber.map(s => s.id).join(', ')}`);
+    }
+  }
+
+  // Regions whose problem label was removed from the page are dropped along with it
+  const activeRegions: { [pageNumber: number]: PageRegion[] } = {};
+  for (const [pageNum, regions] of Object.entries(pageRegions)) {
+    const kept = regions.filter(r => (pageLabels[Number(pageNum)] || []).includes(r.problemId));
+    if (kept.length > 0) {
+      activeRegions[Number(pageNum)] = kept;
+    }
+  }
+
+  // Changes that haven't been submitted are lost when leaving this student
+  const hasUnsavedChanges = studentData !== null && (
+    studentName !== studentData.studentName ||
+    studentNumber !== studentData.studentNumber ||
+    JSON.stringify(pageLabels) !== JSON.stringify(studentData.pageLabels) ||
+    JSON.stringify(activeRegions) !== JSON.stringify(studentData.pageRegions)
+  );
+
+  const leaveStudent = (action: () => void) => {
+    if (hasUnsavedChanges && !window.confirm('Leave this student? The labels you changed have not been submitted.')) {
+      return;
+    }
+    action();
+  };
+
   // Handle saving and submitting
   const handleSubmit = async () => {
     if (!studentName.trim()) {
@@ -582,7 +692,7 @@ const SortingPage: React.FC<SortingPageProps> = ({
     setSuccess('');
 
     try {
-      const response = await fetch('/api/label', {
+      const response = await fetch(sessionApiUrl(sessionId, '/label'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -590,7 +700,9 @@ const SortingPage: React.FC<SortingPageProps> = ({
         body: JSON.stringify({
           studentId,
           studentName: studentName.trim(),
-          pageLabels
+          studentNumber: studentNumber.trim(),
+          pageLabels,
+          pageRegions: activeRegions
         })
       });
 
@@ -638,7 +750,12 @@ const SortingPage: React.FC<SortingPageProps> = ({
   }
 
   const labeledPages = Object.keys(pageLabels).length;
-  const uniqueProblems = new Set(Object.values(pageLabels).flat()).size;
+  // Same choices as the quick buttons of the labeler, plus custom labels already on this page
+  const regionProblems = Array.from(new Set([
+    ...(examProblems.length > 0 ? examProblems.map(p => p.id) : Array.from({ length: 15 }, (_, i) => String(i + 1))),
+    ...(pageLabels[currentPage] || []).filter(isProblemId)
+  ]));
+  const uniqueProblems = new Set(Object.values(pageLabels).flat().filter(isProblemId)).size;
 
   // Check if all pages are labeled
   const allPagesLabeled = totalPages > 0 && Array.from({ length: totalPages }, (_, i) => i + 1)
@@ -646,6 +763,13 @@ const SortingPage: React.FC<SortingPageProps> = ({
 
   return (
     <Box>
+      <StudentNavigator
+        sessionId={sessionId}
+        studentId={studentId}
+        onNavigate={(id) => leaveStudent(() => onNavigate(id))}
+        onReview={() => leaveStudent(onReview)}
+      />
+
       {/* Student Info Section */}
       <Paper sx={{ p: 4, mb: 3, border: '1px solid #f1f5f9' }}>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
@@ -673,16 +797,72 @@ const SortingPage: React.FC<SortingPageProps> = ({
           />
         </Box>
 
+        <Autocomplete<RosterStudent, false, false, true>
+          freeSolo
+          options={rosterStatus?.roster || []}
+          getOptionLabel={(option) => typeof option === 'string' ? option : option.name}
+          inputValue={studentName}
+          onInputChange={(_, value) => setStudentName(value)}
+          onChange={(_, value) => {
+            // Picking someone from the roster fills in their student number too
+            if (value && typeof value !== 'string' && value.studentNumber) {
+              setStudentNumber(value.studentNumber);
+            }
+          }}
+          renderOption={(props, option) => {
+            const otherStudents = option.studentIds.filter(id => id !== studentId);
+            return (
+              <li {...props} key={`${option.name}-${option.studentNumber}`}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                  <Typography variant="body2" sx={{ flexGrow: 1 }}>{option.name}</Typography>
+                  {option.studentNumber && (
+                    <Typography variant="caption" color="text.secondary">{option.studentNumber}</Typography>
+                  )}
+                  {otherStudents.length > 0 ? (
+                    <Chip label={`Student ${otherStudents.join(', ')}`} size="small" color="warning" variant="outlined" />
+                  ) : option.studentIds.length === 0 && (
+                    <Chip label="No submission yet" size="small" variant="outlined" />
+                  )}
+                </Box>
+              </li>
+            );
+          }}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Student Name"
+              required
+              placeholder={rosterStatus && rosterStatus.roster.length > 0 ? 'Start typing to pick from the roster' : "Enter the student's name"}
+            />
+          )}
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+
         <TextField
-          label="Student Name"
-          value={studentName}
-          onChange={(e) => setStudentName(e.target.value)}
+          label="Student Number"
+          value={studentNumber}
+          onChange={(e) => setStudentNumber(e.target.value)}
+          placeholder="Printed in the watermark and exports"
+          inputProps={{ maxLength: 50 }}
           fullWidth
-          required
           sx={{ mb: 2 }}
-          placeholder="Enter the student's name"
         />
 
+        {nameWarnings.map(warning => (
+          <Alert key={warning} severity="warning" sx={{ mb: 2 }}>
+            {warning}
+          </Alert>
+        ))}
+
+        {processingError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            <Typography variant="body2">
+              Processing this student's labels failed: {processingError}. Check the labels and submit them again to retry.
+            </Typography>
+          </Alert>
+        )}
+
         {!allPagesLabeled && totalPages > 0 && (
           <Alert severity="info" sx={{ mb: 2 }}>
             <Typography variant="body2">
@@ -737,6 +917,10 @@ const SortingPage: React.FC<SortingPageProps> = ({
             pageLabels={pageLabels}
             onPageLabel={handlePageLabel}
             onRemovePageLabel={handleRemovePageLabel}
+            pageRegions={activeRegions}
+            regionProblems={regionProblems}
+            onAddRegion={handleAddRegion}
+            onRemoveRegion={handleRemoveRegion}
             scale={scale}
             onScaleChange={setScale}
           />
@@ -747,8 +931,10 @@ const SortingPage: React.FC<SortingPageProps> = ({
           <PageLabeler
             currentPage={currentPage}
             pageLabels={pageLabels}
+            problems={examProblems}
             onPageLabel={handlePageLabel}
             onRemovePageLabel={handleRemovePageLabel}
+            onEditProblems={onEditExam}
           />
           
           {/* Page Summary */}
@@ -796,6 +982,9 @@ const SortingPage: React.FC<SortingPageProps> = ({
             <Typography variant="caption" display="block" sx={{ color: '#64748b', lineHeight: 1.5 }}>
               • Numbers 1-9: Quick label current page
             </Typography>
+            <Typography variant="caption" display="block" sx={{ color: '#64748b', lineHeight: 1.5 }}>
+              • Sub-problems: Press 3, then a within 500ms = Problem 3a
+            </Typography>
             <Typography variant="caption" display="block" sx={{ color: '#64748b', lineHeight: 1.5 }}>
               • Two digits: Press 1, then 2 within 500ms = Problem 12
             </Typography>
@@ -813,10 +1002,22 @@ const SortingPage: React.FC<SortingPageProps> = ({
             </Typography>
             {lastAddedProblem !== null && (
               <Typography variant="caption" display="block" sx={{ color: '#6366f1', fontWeight: 600, mt: 1 }}>
-                Last pressed: {lastAddedProblem} {lastAddedWasNew ? '(added)' : '(exists)'} - press another digit within 500ms to combine
+                Last pressed: {lastAddedProblem} {lastAddedWasNew ? '(added)' : '(exists)'} - press {lastAddedProblem.length === 1 ? 'a digit or letter' : 'a letter'} within 500ms to combine
               </Typography>
             )}
           </Paper>
+
+          {/* Watermark layout with a live preview for the current page */}
+          <WatermarkSettingsPanel
+            sessionId={sessionId}
+            preview={{
+              problem: (pageLabels[currentPage] || []).find(isProblemId) ?? '1',
+              name: studentName.trim() || 'Student Name',
+              studentId,
+              studentNumber: studentNumber.trim(),
+              page: currentPage
+            }}
+          />
         </Grid>
       </Grid>
     </Box>
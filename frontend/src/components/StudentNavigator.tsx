@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  IconButton,
+  MenuItem,
+  Select,
+  Tooltip
+} from '@mui/material';
+import { ChevronLeft, ChevronRight, CheckCircle, RadioButtonUnchecked, ErrorOutline, FactCheck } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+
+interface NavigatorStudent {
+  id: number;
+  name: string;
+  labeled: boolean;
+  processingStatus: 'pending' | 'processing' | 'completed' | 'error';
+}
+
+interface StudentNavigatorProps {
+  sessionId: string;
+  studentId: number;
+  onNavigate: (studentId: number) => void;
+  onReview: () => void;
+}
+
+const statusIcon = (student: NavigatorStudent) => {
+  if (student.processingStatus === 'error') {
+    return <ErrorOutline fontSize="small" sx={{ color: '#dc2626' }} />;
+  }
+  return student.labeled
+    ? <CheckCircle fontSize="small" sx={{ color: '#16a34a' }} />
+    : <RadioButtonUnchecked fontSize="small" sx={{ color: '#94a3b8' }} />;
+};
+
+const StudentNavigator: React.FC<StudentNavigatorProps> = ({ sessionId, studentId, onNavigate, onReview }) => {
+  const [students, setStudents] = useState<NavigatorStudent[]>([]);
+
+  // Reload whenever the student changes so the labeled marks stay current
+  useEffect(() => {
+    const loadStudents = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, '/students'));
+        const result = await response.json();
+        setStudents(result.students || []);
+      } catch (error) {
+        console.error('Failed to load students:', error);
+      }
+    };
+    loadStudents();
+  }, [sessionId, studentId]);
+
+  const index = students.findIndex(student => student.id === studentId);
+  const labeledCount = students.filter(student => student.labeled).length;
+
+  if (students.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 2, mb: 3, border: '1px solid #f1f5f9', display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Tooltip title="Previous student">
+        <span>
+          <IconButton onClick={() => onNavigate(students[index - 1].id)} disabled={index <= 0}>
+            <ChevronLeft />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Select
+        size="small"
+        value={index === -1 ? '' : studentId}
+        onChange={(e) => onNavigate(Number(e.target.value))}
+        sx={{ minWidth: 260 }}
+      >
+        {students.map(student => (
+          <MenuItem key={student.id} value={student.id}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              {statusIcon(student)}
+              <Typography variant="body2">
+                Student {student.id}{student.name ? ` - ${student.name}` : ''}
+              </Typography>
+            </Box>
+          </MenuItem>
+        ))}
+      </Select>
+      <Tooltip title="Next student">
+        <span>
+          <IconButton onClick={() => onNavigate(students[index + 1].id)} disabled={index === -1 || index >= students.length - 1}>
+            <ChevronRight />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+        {labeledCount} of {students.length} labeled
+      </Typography>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<FactCheck />}
+        onClick={onReview}
+        disabled={labeledCount === 0}
+      >
+        Review All
+      </Button>
+    </Paper>
+  );
+};
+
+export default StudentNavigator;
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Slider,
+  Alert
+} from '@mui/material';
+import { ExpandMore, BrandingWatermark } from '@mui/icons-material';
+import { sessionApiUrl } from '../utils/api';
+
+export type WatermarkPosition = 'right' | 'left' | 'top' | 'bottom' | 'header';
+
+export interface WatermarkSettings {
+  template: string;
+  position: WatermarkPosition;
+  fontSize: number;
+  color: string;
+  opacity: number;
+}
+
+interface WatermarkPreviewValues {
+  problem: string;
+  name: string;
+  studentId: number;
+  studentNumber: string;
+  page: number;
+}
+
+interface WatermarkSettingsPanelProps {
+  sessionId: string;
+  preview: WatermarkPreviewValues;
+}
+
+const POSITION_LABELS: { [position in WatermarkPosition]: string } = {
+  right: 'Right edge (vertical)',
+  left: 'Left edge (vertical)',
+  top: 'Top of page',
+  bottom: 'Bottom of page',
+  header: 'Header strip above the page'
+};
+
+// A4 width in PDF points - the preview scales font sizes relative to it
+const PAGE_WIDTH_PT = 595;
+
+// Blind grading ignores the template so names can never leak onto a page
+const ANONYMOUS_TEMPLATE = 'Problem {problem} - {name}';
+const ANONYMOUS_PREVIEW_CODE = 'K7Q2XM';
+
+const PLACEHOLDERS = /\{(problem|name|studentId|studentNumber|page)\}/g;
+
+// Same as the backend: a " - " segment whose placeholders are all empty is left out
+const formatWatermarkText = (template: string, values: WatermarkPreviewValues) =>
+  template
+    .split(' - ')
+    .filter(segment => {
+      const keys = Array.from(segment.matchAll(PLACEHOLDERS), match => match[1] as keyof WatermarkPreviewValues);
+      return keys.length === 0 || keys.some(key => String(values[key]) !== '');
+    })
+    .map(segment => segment.replace(PLACEHOLDERS, (_, key: keyof WatermarkPreviewValues) => String(values[key])))
+    .join(' - ');
+
+const WatermarkSettingsPanel: React.FC<WatermarkSettingsPanelProps> = ({ sessionId, preview }) => {
+  const [settings, setSettings] = useState<WatermarkSettings | null>(null);
+  const [anonymize, setAnonymize] = useState(false);
+  const [error, setError] = useState('');
+  const saveTimeout = useRef<number | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch(sessionApiUrl(sessionId, '/watermark'));
+        const result = await response.json();
+        setSettings(result.watermark);
+        setAnonymize(Boolean(result.anonymize));
+      } catch (error) {
+        console.error('Failed to load watermark settings:', error);
+        setError('Failed to load watermark settings');
+      }
+    };
+    loadSettings();
+  }, [sessionId]);
+
+  // Clear a pending save when unmounting
+  useEffect(() => () => {
+    if (saveTimeout.current) {
+      clearTimeout(saveTimeout.current);
+    }
+  }, []);
+
+  const saveSettings = async (newSettings: WatermarkSettings) => {
+    try {
+      const response = await fetch(sessionApiUrl(sessionId, '/watermark'), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ watermark: newSettings })
+      });
+      const result = await response.json();
+      setError(response.ok ? '' : result.error || 'Failed to save watermark settings');
+    } catch (error) {
+      console.error('Failed to save watermark settings:', error);
+      setError('Failed to save watermark settings');
+    }
+  };
+
+  // Update the preview immediately but only save once the user stops typing/dragging
+  const updateSettings = (changes: Partial<WatermarkSettings>) => {
+    if (!settings) return;
+    const newSettings = { ...settings, ...changes };
+    setSettings(newSettings);
+
+    if (saveTimeout.current) {
+      clearTimeout(saveTimeout.current);
+    }
+    saveTimeout.current = setTimeout(() => saveSettings(newSettings), 500);
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  const previewText = anonymize
+    ? formatWatermarkText(ANONYMOUS_TEMPLATE, { ...preview, name: ANONYMOUS_PREVIEW_CODE })
+    : formatWatermarkText(settings.template, preview);
+  const vertical = settings.position === 'right' || settings.position === 'left';
+  const fontSize = `${(settings.fontSize / PAGE_WIDTH_PT) * 100}cqw`;
+  const labelStyle = {
+    position: 'absolute' as const,
+    whiteSpace: 'nowrap' as const,
+    overflow: 'hidden',
+    textAlign: 'center' as const,
+    fontSize,
+    lineHeight: 1.8,
+    color: settings.color,
+    opacity: settings.opacity,
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    // Vertical labels read bottom to top, like the rotated text in the PDF
+    ...(vertical ? { writingMode: 'vertical-rl' as const, transform: 'rotate(180deg)', top: 0, bottom: 0 } : { left: 0, right: 0 }),
+    ...(settings.position === 'right' && { right: 0 }),
+    ...(settings.position === 'left' && { left: 0 }),
+    ...(settings.position === 'top' && { top: 0 }),
+    ...(settings.position === 'bottom' && { bottom: 0 })
+  };
+
+  return (
+    <Accordion disableGutters sx={{ border: '1px solid #f1f5f9', '&:before': { display: 'none' } }}>
+      <AccordionSummary expandIcon={<ExpandMore />}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <BrandingWatermark sx={{ color: '#6366f1' }} />
+          <Typography variant="h6" sx={{ color: '#1e293b', fontWeight: 600 }}>
+            Watermark
+          </Typography>
+        </Box>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Typography variant="caption" display="block" color="text.secondary" sx={{ mb: 2 }}>
+          Applied to every page when the problem PDFs are created. Placeholders: {'{problem}'}, {'{name}'}, {'{studentNumber}'}, {'{studentId}'} (upload order), {'{page}'}
+        </Typography>
+
+        <TextField
+          label="Label Text"
+          size="small"
+          value={settings.template}
+          onChange={(e) => updateSettings({ template: e.target.value })}
+          disabled={anonymize}
+          helperText={anonymize ? 'Blind grading is on - pages only show the problem and an anonymous code' : undefined}
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          select
+          label="Position"
+          size="small"
+          value={settings.position}
+          onChange={(e) => updateSettings({ position: e.target.value as WatermarkPosition })}
+          fullWidth
+          sx={{ mb: 2 }}
+        >
+          {(Object.keys(POSITION_LABELS) as WatermarkPosition[]).map(position => (
+            <MenuItem key={position} value={position}>{POSITION_LABELS[position]}</MenuItem>
+          ))}
+        </TextField>
+
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 1 }}>
+          <TextField
+            label="Color"
+            size="small"
+            type="color"
+            value={settings.color}
+            onChange={(e) => updateSettings({ color: e.target.value })}
+            sx={{ width: 90 }}
+          />
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="caption" color="text.secondary">
+              Font size: {settings.fontSize}pt
+            </Typography>
+            <Slider
+              size="small"
+              min={6}
+              max={40}
+              value={settings.fontSize}
+              onChange={(_, value) => updateSettings({ fontSize: value as number })}
+            />
+          </Box>
+        </Box>
+
+        <Typography variant="caption" color="text.secondary">
+          Opacity: {Math.round(settings.opacity * 100)}%
+        </Typography>
+        <Slider
+          size="small"
+          min={0.05}
+          max={1}
+          step={0.05}
+          value={settings.opacity}
+          onChange={(_, value) => updateSettings({ opacity: value as number })}
+          sx={{ mb: 2 }}
+        />
+
+        {/* Live preview on a scaled-down A4 page */}
+        <Typography variant="subtitle2" sx={{ color: '#1e293b', fontWeight: 600, mb: 1 }}>
+          Preview
+        </Typography>
+        <Box sx={{ containerType: 'inline-size', width: '60%', mx: 'auto', border: '1px solid #e2e8f0', borderRadius: 1, overflow: 'hidden', backgroundColor: 'white' }}>
+          {settings.position === 'header' && (
+            <Box sx={{ position: 'relative', height: `${((settings.fontSize * 2) / PAGE_WIDTH_PT) * 100}cqw`, borderBottom: '1px dashed #cbd5e1' }}>
+              <Box sx={{ ...labelStyle, top: 0, bottom: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                {previewText}
+              </Box>
+            </Box>
+          )}
+          <Box sx={{ position: 'relative', aspectRatio: '210 / 297', backgroundColor: '#fafbfc' }}>
+            {/* Fake handwriting lines to show what the label might cover */}
+            {Array.from({ length: 12 }, (_, i) => (
+              <Box key={i} sx={{ position: 'absolute', left: '12%', right: '12%', top: `${8 + i * 7.5}%`, height: '2px', backgroundColor: '#e2e8f0' }} />
+            ))}
+            {settings.position !== 'header' && (
+              <Box sx={labelStyle}>{previewText}</Box>
+            )}
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+export default WatermarkSettingsPanel;
@@ -0,0 +1,16 @@
+// Every backend route except session management is scoped to one exam session
+export const sessionApiUrl = (sessionId: string, path: string) =>
+  `/api/sessions/${encodeURIComponent(sessionId)}${path}`;
+
+// Remember the last opened session so a page reload can resume it
+const LAST_SESSION_KEY = 'examGrader.lastSessionId';
+
+export const getLastSessionId = () => window.localStorage.getItem(LAST_SESSION_KEY);
+
+export const setLastSessionId = (sessionId: string | null) => {
+  if (sessionId) {
+    window.localStorage.setItem(LAST_SESSION_KEY, sessionId);
+  } else {
+    window.localStorage.removeItem(LAST_SESSION_KEY);
+  }
+};
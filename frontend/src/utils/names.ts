@@ -0,0 +1,10 @@
+// Same matching as the backend roster: order-insensitive, ignoring case, accents and punctuation,
+// so "Doe, Jane", "jane doe" and "Jane Dóe" count as the same student
+export const nameKey = (name: string) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean)
+  .sort()
+  .join(' ');
@@ -0,0 +1,34 @@
+// Problem IDs are short strings like "3", "3a" or "2.3" - same rules as the backend
+
+// Label for pages that don't belong to any problem (cover pages, scrap paper)
+export const NOT_A_PROBLEM = '-';
+
+const PROBLEM_ID_PATTERN = /^[0-9a-z]+(\.[0-9a-z]+)*$/;
+const MAX_PROBLEM_ID_LENGTH = 20;
+
+// Lower-cases and trims an ID; returns null if it isn't a valid problem ID
+export const normalizeProblemId = (input: string) => {
+  const id = input.trim().toLowerCase();
+  return id.length <= MAX_PROBLEM_ID_LENGTH && PROBLEM_ID_PATTERN.test(id) ? id : null;
+};
+
+export const isProblemId = (label: string) => label !== NOT_A_PROBLEM;
+
+// Natural ordering: digit runs compare as numbers, so 2 < 2.3 < 2a < 2b < 10
+export const compareProblemIds = (a: string, b: string) => {
+  const partsA = a.split(/(\d+)/);
+  const partsB = b.split(/(\d+)/);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const x = partsA[i] ?? '';
+    const y = partsB[i] ?? '';
+    if (x === y) continue;
+    // split() with a capture group puts the digit runs at the odd indexes
+    if (i % 2 === 1 && x && y) {
+      return Number(x) - Number(y) || x.length - y.length;
+    }
+    return x < y ? -1 : 1;
+  }
+  return 0;
+};
+
+export const sortProblemIds = (ids: string[]) => [...ids].sort(compareProblemIds);